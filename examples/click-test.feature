@@ -13,3 +13,12 @@ Feature: Click Action Test
     When I pw click on text "Add Element"
     When I pw double click
     
+
+  Scenario: Click options table with a notes column
+    Given I pw visit "https://the-internet.herokuapp.com/add_remove_elements/"
+    When I pw click on text "Add Element"
+    # Only the first two cells of a row are read, so a third column can hold notes
+    When I pw click on button "Delete"
+      | force   | true | skip actionability checks |
+      | timeout | 5000 | milliseconds              |
+    Then I pw expect "button.added-manually" to be hidden
@@ -0,0 +1,18 @@
+@api
+Feature: Examples from Data Files
+
+  # users.csv lists "jane" twice: each record is still its own test
+  @data:examples/data/users.csv
+  Scenario Outline: Create user <username> from CSV
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/users" with data
+      | username | <username> |
+      | role     | <role>     |
+    Then I pw expect the response property "username" to be "<username>"
+    And I pw expect the response property "role" to be "<role>"
+
+  @data:examples/data/users.json#roles.admins
+  Scenario Outline: Create admin <username> from JSON
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/users" with data
+      | username | <username> |
+      | role     | <role>     |
+    Then I pw expect the response property "role" to be "<role>"
@@ -0,0 +1,24 @@
+@api
+Feature: Doc String Media Types
+
+  Scenario: POST a JSON doc string
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with JSON body:
+      """json
+      { "title": "From JSON", "userId": 1 }
+      """
+    Then I pw expect the response property "title" to be "From JSON"
+
+  Scenario: POST a YAML doc string as JSON
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with JSON body:
+      """yaml
+      title: From YAML
+      userId: 1
+      """
+    Then I pw expect the response property "title" to be "From YAML"
+
+  Scenario: POST a GraphQL doc string as a query body
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with JSON body:
+      """graphql
+      { post(id: 1) { title } }
+      """
+    Then I pw expect response property "query" to contain "post(id: 1)"
@@ -0,0 +1,7 @@
+@api
+Feature: Calling Steps from Steps
+
+  Scenario: A custom step posts a data table through executeStep
+    When I create a post titled "Hello from executeStep"
+    Then I pw expect the response property "title" to be "Hello from executeStep"
+    And I pw expect the response property "body" to be "Sent through executeStep"
@@ -0,0 +1,26 @@
+@api
+Feature: Gherkin Parsing
+  Free-form lines under the Feature are its description. They are
+  never run, even when they read like a step:
+  Given this line is part of the description
+
+  Background:
+    Given I pw log "Background runs before every scenario # not a comment"
+
+  Scenario: Scenarios with the same name
+    This description is not a step either.
+    When I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/1"
+    Then I pw expect the response property "id" to be "1"
+
+  Scenario: Scenarios with the same name
+    When I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/2"
+    Then I pw expect the response property "id" to be "2"
+
+  # Comment lines and tags between scenarios belong to the next one
+  @issue-42
+  Scenario: A hash inside step text is not a tag or comment
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with JSON body:
+      """json
+      { "title": "Ticket #42 @urgent" }
+      """
+    Then I pw expect the response property "title" to be "Ticket #42 @urgent"
@@ -0,0 +1,9 @@
+@api
+Feature: Tag-scoped Hooks
+
+  @seeded
+  Scenario: A tagged scenario runs the tagged hooks
+    Then the stored value "seededBy" is "Before @seeded hook"
+
+  Scenario: Other scenarios skip them
+    Then the stored value "seededBy" is "undefined"
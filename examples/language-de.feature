@@ -0,0 +1,7 @@
+@api
+Funktionalität: Deutsche Schlüsselwörter über die language-Option
+
+  Szenario: Einen Beitrag lesen
+    Angenommen I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/1"
+    Dann I pw expect the response status to be successful
+    Und I pw expect the response property "title" to be "sunt aut facere repellat provident occaecati excepturi optio reprehenderit"
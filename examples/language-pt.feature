@@ -0,0 +1,18 @@
+# language: pt
+@api
+Funcionalidade: Palavras-chave em português
+
+  Contexto:
+    Dado I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/1"
+
+  Cenário: Ler uma publicação
+    Então I pw expect the response status to be successful
+    E I pw expect the response property "id" to be "1"
+
+  Esquema do Cenário: Ler o usuário <id>
+    Quando I pw make a GET request to "https://jsonplaceholder.typicode.com/users/<id>"
+    Então I pw expect the response property "username" to be "<username>"
+
+    Exemplos:
+      | id | username |
+      | 1  | Bret     |
@@ -0,0 +1,16 @@
+@api
+Feature: Step Macros
+
+  Scenario: A macro from a .steps.feature file
+    When I read post 1
+    Then I pw expect the response property "id" to be "1"
+
+  Scenario: A macro passes its data table on
+    When I publish a post with:
+      | title  | Written by a macro |
+      | userId | 1                  |
+    Then I pw expect the response property "title" to be "Written by a macro"
+
+  Scenario: A macro defined with StepMacro
+    When I read user 1
+    Then I pw expect the response property "username" to be "Bret"
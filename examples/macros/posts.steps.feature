@@ -0,0 +1,9 @@
+Feature: Post macros
+
+  Scenario: I read post {int}
+    When I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/{0}"
+    Then I pw expect the response status to be successful
+
+  Scenario: I publish a post with
+    When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with data:
+    Then I pw expect the response status to be "201"
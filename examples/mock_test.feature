@@ -1,3 +1,4 @@
+@api
 Feature: Advanced API & Mocking
 
   # Scenario: Mocking and Tables
@@ -18,5 +19,5 @@ Feature: Advanced API & Mocking
 
   Scenario: API POST with File Payload
     When I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with payload from "examples/data/post.json"
-    Then I pw expect the response status to be 201
+    Then I pw expect the response status to be "201"
     And I pw expect the response property "title" to be "File Payload"
@@ -0,0 +1,21 @@
+@outline
+Feature: Scenario Outline Test
+
+  Scenario Outline: Login as <username>
+    Given I pw visit "https://the-internet.herokuapp.com/login"
+    When I pw fill the following "Login Action" form data:
+      | Target        | Value      |
+      | #username     | <username> |
+      | #password     | <password> |
+      | button.radius | click      |
+    Then I pw expect the url to contain "<page>"
+
+    @smoke
+    Examples: Valid credentials
+      | username | password             | page   |
+      | tomsmith | SuperSecretPassword! | secure |
+
+    Examples: Invalid credentials
+      | username | password | page  |
+      | tomsmith | wrong    | login |
+      | nobody   | secret   | login |
@@ -0,0 +1,26 @@
+@api
+Feature: Business Rules
+
+  Background:
+    Given I pw log "The feature background runs before each rule background"
+
+  Rule: Posts can be read
+    Background:
+      Given I pw make a GET request to "https://jsonplaceholder.typicode.com/posts/1"
+
+    Scenario: A post has a title
+      Then I pw expect response property "title" to exist
+
+    Scenario: A post belongs to a user
+      Then I pw expect the response property "userId" to be "1"
+
+  @serial
+  Rule: Users can be read
+    Background:
+      Given I pw make a GET request to "https://jsonplaceholder.typicode.com/users/1"
+
+    Scenario: A user has a name
+      Then I pw expect the response property "name" to be "Leanne Graham"
+
+    Scenario: A user has a username
+      Then I pw expect the response property "username" to be "Bret"
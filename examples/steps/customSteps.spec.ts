@@ -0,0 +1,47 @@
+// customSteps.spec.ts
+import { expect } from "@playwright/test";
+import {
+  After,
+  Before,
+  StepMacro,
+  defineStep,
+  executeStep,
+  getWorld,
+  runTests,
+} from "../..";
+
+// A domain step built from a library step, handing it a data table
+defineStep("I create a post titled {string}", async (ctx, title) => {
+  await executeStep(ctx, 'I pw make a POST request to "https://jsonplaceholder.typicode.com/posts" with data', {
+    dataTable: [
+      ["title", title],
+      ["body", "Sent through executeStep"],
+      ["userId", "1"],
+    ],
+  });
+});
+
+runTests("examples/execute-step.feature");
+
+// Hooks with a tag expression only run for the scenarios it matches
+Before("@seeded", () => {
+  getWorld().variables.seededBy = "Before @seeded hook";
+});
+
+After("@seeded and not @keep", (page, scenario) => {
+  console.log(`🧹 Cleaning up after "${scenario.name}" (${scenario.result?.status})`);
+});
+
+defineStep("the stored value {string} is {string}", ({ world }, name, expected) => {
+  expect(String(world.variables[name])).toBe(expected);
+});
+
+runTests("examples/hooks.feature");
+
+// A macro defined in code, next to the ones in examples/macros/posts.steps.feature
+StepMacro("I read user {int}", [
+  'I pw make a GET request to "https://jsonplaceholder.typicode.com/users/{0}"',
+  "I pw expect the response status to be successful",
+]);
+
+runTests("examples/macros/*.feature");
@@ -9,6 +9,8 @@ runTests("examples/demo.feature");
 // 2. Forms and Inputs
 runTests("examples/form-test.feature");
 runTests("examples/inputs.test.feature");
+runTests("examples/outline-test.feature");
+runTests("examples/data-examples.feature");
 
 // 3. Hardware Interactions (Mouse/Keyboard/Mobile)
 runTests("examples/mouse-test.feature");
@@ -18,7 +20,14 @@ runTests("examples/mobile-test.feature");
 // 4. Advanced Networking & Mocking
 runTests("examples/network-test.feature");
 runTests("examples/mock_test.feature");
+runTests("examples/doc-strings.feature");
 
 // 5. Utilities & Database
 runTests("examples/db_test.feature");
 runTests("examples/misc-test.feature");
+
+// 6. Gherkin Language Features
+runTests("examples/gherkin-parsing.feature");
+runTests("examples/rules.feature");
+runTests("examples/language-pt.feature");
+runTests("examples/language-de.feature", { language: "de" });
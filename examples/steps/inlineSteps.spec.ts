@@ -0,0 +1,16 @@
+// inlineSteps.spec.ts
+import { expect, test } from "@playwright/test";
+import { runSteps } from "../..";
+
+test("Inline Gherkin login @inline", async ({ page }) => {
+  await runSteps(page, `
+    Given I pw visit "https://the-internet.herokuapp.com/login"
+    When I pw fill the following "login" form data:
+      | Target        | Value                |
+      | #username     | tomsmith             |
+      | #password     | SuperSecretPassword! |
+      | button.radius | click                |
+  `);
+  await expect(page.locator("#flash")).toContainText("You logged into a secure area!");
+  await runSteps(page, `Then I pw expect the url to contain "secure"`);
+});
@@ -1,5 +1,6 @@
 //src/backend/actions/click.ts
 import { Step } from "../../core/registry";
+import { resolveSelector, toIndex } from "../../core/parameterTypes";
 import { loadFixture, getFixtureValue } from "../utils/fixtures";
 import {
   setActiveElement,
@@ -297,7 +298,7 @@ export async function rightClickPosition(
  * Clicks on the Nth element containing the specified text.
  * Handles 1st, 2nd, 3rd, 4th, etc.
  * @param page - The Playwright page object
- * @param indexStr - The index string (1st, 2nd, 3rd, etc.)
+ * @param indexStr - The 1-based index: a number, or a string like "2nd"
  * @param text - The text to search for
  * @param table - Optional table data for click options
  * @example When I pw click on 1st element "Login"
@@ -305,11 +306,11 @@ export async function rightClickPosition(
  */
 export async function clickNthElementByText(
   page: any,
-  indexStr: string,
+  indexStr: number | string,
   text: string,
   table?: any
 ): Promise<void> {
-  const index = parseInt(indexStr, 10);
+  const index = toIndex(indexStr);
   const options = parseClickOptions(table);
 
   // Playwright nth is 0-indexed
@@ -319,29 +320,37 @@ export async function clickNthElementByText(
   await locator.click(options);
 
   setActiveElement(page, locator);
-  console.log(`🖱️ Clicked on ${indexStr} element with text "${text}"`);
+  console.log(`🖱️ Clicked on ${index}${getOrdinalSuffix(index)} element with text "${text}"`);
 }
 
 /**
  * Clicks on the Nth element matching a CSS or XPath selector.
  * @param page - The Playwright page object
- * @param indexStr - The index string (1st, 2nd, 3rd, etc.)
+ * @param indexStr - The 1-based index: a number, or a string like "2nd"
  * @param selectorKey - The selector key (can be a fixture key or raw CSS/XPath selector)
  * @param table - Optional table data for click options
  * @example When I pw click on 1st selector ".btn"
  */
 export async function clickNthElementBySelector(
   page: any,
-  indexStr: string,
+  indexStr: number | string,
   selectorKey: string,
   table?: any
 ): Promise<void> {
-  const index = parseInt(indexStr, 10);
-  const options = parseClickOptions(table);
+  await clickNthSelector(page, toIndex(indexStr), resolveSelector(selectorKey), table);
+}
 
-  // Resolve selector from fixtures or use raw value
-  const selectors = loadFixture("selectors.json");
-  const selector = getFixtureValue(selectors, selectorKey);
+/**
+ * Step form of clickNthElementBySelector(): {ordinal} and {selector}
+ * have already parsed the index and resolved the selector.
+ */
+async function clickNthSelector(
+  page: any,
+  index: number,
+  selector: string,
+  table?: any
+): Promise<void> {
+  const options = parseClickOptions(table);
 
   const locator = page.locator(selector).nth(index - 1);
 
@@ -349,7 +358,7 @@ export async function clickNthElementBySelector(
   await locator.click(options);
 
   setActiveElement(page, locator);
-  console.log(`🖱️ Clicked on ${indexStr} selector "${selector}"`);
+  console.log(`🖱️ Clicked on ${index}${getOrdinalSuffix(index)} selector "${selector}"`);
 }
 
 /**
@@ -388,7 +397,7 @@ export async function clickOnColumnInRow(
 /**
  * Clicks on a specific column in a row identified by a selector.
  * @param page - The Playwright page object
- * @param columnIndex - The 1-based index of the column to click
+ * @param columnIndex - The 1-based column index: a number, or a string like "2nd"
  * @param rowSelectorKey - The selector key for the row (can be a fixture key or raw CSS selector)
  * @param table - Optional table data for click options
  * @example When I pw click on 1st column in row "table#users tbody tr:first-child"
@@ -398,16 +407,25 @@ export async function clickOnColumnInRow(
  */
 export async function clickOnNthColumnInRow(
   page: any,
-  columnIndex: number,
+  columnIndex: number | string,
   rowSelectorKey: string,
   table?: any
+): Promise<void> {
+  await clickNthColumnInSelectedRow(page, toIndex(columnIndex), resolveSelector(rowSelectorKey), table);
+}
+
+/**
+ * Step form of clickOnNthColumnInRow(): {ordinal} and {selector}
+ * have already parsed the column and resolved the row selector.
+ */
+async function clickNthColumnInSelectedRow(
+  page: any,
+  columnIndex: number,
+  rowSelector: string,
+  table?: any
 ): Promise<void> {
   const options = parseClickOptions(table);
-  
-  // Resolve selector from fixtures or use raw value
-  const selectors = loadFixture("selectors.json");
-  const rowSelector = getFixtureValue(selectors, rowSelectorKey);
-  
+
   // Adjust for 0-based indexing
   const adjustedColumnIndex = columnIndex - 1;
   
@@ -456,16 +474,7 @@ Step("I pw double click position {int} {int}", doubleClickPosition, "When");
 Step("I pw right click", rightClickStoredElement, "When");
 Step("I pw right click on text {string}", rightClickByText, "When");
 Step("I pw right click position {int} {int}", rightClickPosition, "When");
-Step("I pw click on {int}st element {string}", clickNthElementByText, "When");
-Step("I pw click on {int}nd element {string}", clickNthElementByText, "When");
-Step("I pw click on {int}rd element {string}", clickNthElementByText, "When");
-Step("I pw click on {int}th element {string}", clickNthElementByText, "When");
-Step("I pw click on {int}st selector {string}", clickNthElementBySelector, "When");
-Step("I pw click on {int}nd selector {string}", clickNthElementBySelector, "When");
-Step("I pw click on {int}rd selector {string}", clickNthElementBySelector, "When");
-Step("I pw click on {int}th selector {string}", clickNthElementBySelector, "When");
+Step("I pw click on {ordinal} element {string}", clickNthElementByText, "When");
+Step("I pw click on {ordinal} selector {selector}", clickNthSelector, "When");
 Step("I pw click on column {int} in row {int}", clickOnColumnInRow, "And");
-Step("I pw click on {int}st column in row {string}", clickOnNthColumnInRow, "When");
-Step("I pw click on {int}nd column in row {string}", clickOnNthColumnInRow, "When");
-Step("I pw click on {int}rd column in row {string}", clickOnNthColumnInRow, "When");
-Step("I pw click on {int}th column in row {string}", clickOnNthColumnInRow, "When");
\ No newline at end of file
+Step("I pw click on {ordinal} column in row {selector}", clickNthColumnInSelectedRow, "When");
\ No newline at end of file
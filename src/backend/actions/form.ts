@@ -3,6 +3,7 @@ import * as fs from "fs";
 import * as path from "path";
 import { expect } from "@playwright/test";
 import { Step } from "../../core/registry";
+import { DataTable } from "../../core/dataTable";
 import {
   setVariable,
   getVariable,
@@ -31,39 +32,6 @@ type ActionRow = {
 // HELPER FUNCTIONS (Internal)
 // ==================================================
 
-/**
- * Helper to convert raw runner table into Objects (ActionRow[]).
- * Handles whitespace in headers (e.g., "| Target |" -> "Target").
- * Supports both Cucumber DataTables (hashes) and Raw Arrays (Custom Runner).
- */
-function parseDataTable(table: any): ActionRow[] {
-  // Debug Log: See exactly what the runner is passing
-  // console.log("DEBUG: Raw Table Input:", JSON.stringify(table, null, 2));
-
-  // 1. If it's a Cucumber object (Legacy)
-  if (table && typeof table.hashes === "function") {
-    return table.hashes();
-  }
-
-  // 2. If it's a raw Array of Arrays (Custom Runner)
-  if (Array.isArray(table) && Array.isArray(table[0])) {
-    // Trim headers to ensure " Target " becomes "Target"
-    const headers = table[0].map((h: string) => h.trim());
-    const rows = table.slice(1);
-
-    return rows.map((row: string[]) => {
-      const obj: any = {};
-      headers.forEach((header, index) => {
-        // Map header to row value (and trim the value too for safety)
-        obj[header] = row[index] ? row[index].trim() : "";
-      });
-      return obj;
-    });
-  }
-
-  return [];
-}
-
 /**
  * Helper to resolve values, handling variable aliases.
  * If a value starts with "@", it retrieves it from the global state.
@@ -107,11 +75,15 @@ function resolveValue(page: any, rawValue: string): string {
  * @param formName - A descriptive name for the form being filled (used for logging only).
  * @param table - The Data Table provided in the step definition.
  */
-export async function fillFormData(page: any, formName: string, table: any): Promise<void> {
+export async function fillFormData(
+  page: any,
+  formName: string,
+  table: DataTable | string[][]
+): Promise<void> {
   console.log(`📝 Processing Form: "${formName}"`);
 
-  // Parse the table
-  const rows: ActionRow[] = parseDataTable(table);
+  // One ActionRow per table row, keyed by the header (Target, Value, ...)
+  const rows = DataTable.wrap(table).hashes() as ActionRow[];
 
   if (rows.length === 0) {
     console.warn("⚠️ Form data table appears empty or invalid.");
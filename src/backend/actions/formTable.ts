@@ -1,6 +1,7 @@
 //src/backend/actions/formTable.ts
 import { expect } from "@playwright/test";
 import { Step } from "../../core/registry";
+import { DataTable } from "../../core/dataTable";
 import {
   resolveValue,
 } from "../utils/state";
@@ -37,7 +38,7 @@ import { loadFixture, getFixtureValue } from "../utils/fixtures";
 export async function fillTestFormData(
   page: any,
   formName: string,
-  tableData: string[][]
+  tableData: DataTable | string[][]
 ): Promise<void> {
   console.log(`📝 Processing Form: ${formName}`);
 
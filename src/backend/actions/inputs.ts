@@ -6,7 +6,7 @@ import {
   parseClickOptions,
   setActiveElement,
 } from "../utils/state";
-import { loadFixture, getFixtureValue } from "../utils/fixtures";
+import { resolveSelector, toIndex } from "../../core/parameterTypes";
 // ==================================================
 // CORE FUNCTIONS
 // ==================================================
@@ -81,16 +81,6 @@ export async function clearInput(page: any): Promise<void> {
   console.log("🧹 Cleared input");
 }
 
-/**
- * Simulates pressing a specific keyboard key on the active element.
- * @example When I pw press "Enter"
- */
-export async function pressKeyOnInput(page: any, key: string): Promise<void> {
-  const element = getActiveElement(page);
-  await element.press(key);
-  console.log(`🎹 Pressed key: "${key}"`);
-}
-
 /**
  * Checks the currently active checkbox or radio button.
  * @example When I pw check
@@ -115,21 +105,41 @@ export async function uncheckElement(page: any, table?: any): Promise<void> {
 
 /**
  * Checks/Unchecks the Nth checkbox or radio button matching a selector.
+ * @param action - "check" or "uncheck"
+ * @param indexStr - The 1-based index: a number, or a string like "2nd"
+ * @param selectorKey - The selector key (can be a fixture key or raw CSS/XPath selector)
  * @example When I pw check 1st selector "input[type='checkbox']"
  */
 export async function checkNthElementBySelector(
   page: any,
   action: string,
-  indexStr: string,
+  indexStr: number | string,
   selectorKey: string,
   table?: any
 ): Promise<void> {
-  const index = parseInt(indexStr, 10);
-  const options = parseClickOptions(table);
+  await setNthSelectorChecked(page, action, toIndex(indexStr), resolveSelector(selectorKey), table);
+}
+
+/**
+ * Step forms of checkNthElementBySelector(): {ordinal} and {selector}
+ * have already parsed the index and resolved the selector.
+ */
+async function checkNthSelector(page: any, index: number, selector: string, table?: any) {
+  await setNthSelectorChecked(page, "check", index, selector, table);
+}
 
-  // Resolve selector from fixtures or use raw value
-  const selectors = loadFixture("selectors.json");
-  const selector = getFixtureValue(selectors, selectorKey);
+async function uncheckNthSelector(page: any, index: number, selector: string, table?: any) {
+  await setNthSelectorChecked(page, "uncheck", index, selector, table);
+}
+
+async function setNthSelectorChecked(
+  page: any,
+  action: string,
+  index: number,
+  selector: string,
+  table?: any
+): Promise<void> {
+  const options = parseClickOptions(table);
 
   const locator = page.locator(selector).nth(index - 1);
   await locator.waitFor({ state: "visible", timeout: options.timeout || 5000 });
@@ -142,7 +152,7 @@ export async function checkNthElementBySelector(
 
   setActiveElement(page, locator);
   console.log(
-    `✅ ${action === "check" ? "Checked" : "Unchecked"} ${indexStr} selector "${selector}"`
+    `✅ ${action === "check" ? "Checked" : "Unchecked"} selector "${selector}" #${index}`
   );
 }
 
@@ -213,12 +223,12 @@ Step("I pw slowly type {string}", typeSlowly, "When");
 Step("I pw slowly fill {string}", typeSlowly, "When");
 Step("I pw set value {string}", setInputValue, "When");
 Step("I pw clear", clearInput, "When");
-Step("I pw press {string}", pressKeyOnInput, "When");
 Step("I pw check", checkElement, "When");
 Step("I pw uncheck", uncheckElement, "When");
 Step("I pw check input", checkElement, "When");
 Step("I pw uncheck input", uncheckElement, "When");
-Step("I pw {string} {int}(?:st|nd|rd|th) selector {string}", checkNthElementBySelector, "When");
+Step("I pw check {ordinal} selector {selector}", checkNthSelector, "When");
+Step("I pw uncheck {ordinal} selector {selector}", uncheckNthSelector, "When");
 Step("I pw select option {string}", selectOption, "When");
 Step("I pw submit", submitForm, "When");
 Step("I pw select file {string}", selectFile, "When");
@@ -10,7 +10,10 @@ import {
 
 /**
  * Pauses execution for a specified number of milliseconds.
+ * The step accepts any {duration}, which is converted to milliseconds.
  * @example When I pw wait 1000 milliseconds
+ *          When I pw wait 2 seconds
+ *          When I pw wait for 500ms
  */
 export async function waitMilliseconds(page: any, ms: number): Promise<void> {
   console.warn(`⚠️ Hard wait detected (${ms}ms). Consider replacing with dynamic waits.`);
@@ -20,7 +23,7 @@ export async function waitMilliseconds(page: any, ms: number): Promise<void> {
 
 /**
  * Pauses execution for a specified number of seconds.
- * @example When I pw wait 5 seconds
+ * Not bound to a phrase of its own: "I pw wait 5 seconds" is handled by waitMilliseconds via {duration}.
  */
 export async function waitSeconds(page: any, seconds: number): Promise<void> {
   const ms = seconds * 1000;
@@ -168,8 +171,8 @@ export async function storeActiveElementText(page: any, alias: string): Promise<
 // GLUE STEPS
 // ==================================================
 
-Step("I pw wait {int} milliseconds", waitMilliseconds, "When");
-Step("I pw wait {int} seconds", waitSeconds, "When");
+Step("I pw wait {duration}", waitMilliseconds, "When");
+Step("I pw wait for {duration}", waitMilliseconds, "When");
 Step("I pw pause", pauseExecution, "When");
 Step("I pw debug", debugExecution, "When");
 Step("I pw log {string}", logMessage, "When");
@@ -2,6 +2,7 @@
 import { Step } from "../../core/registry";
 import { setActiveElement, parseClickOptions } from "../utils/state";
 import { loadFixture, getFixtureValue } from "../utils/fixtures";
+import { resolveSelector, toIndex } from "../../core/parameterTypes";
 // ==================================================
 // CORE FUNCTIONS
 // ==================================================
@@ -147,11 +148,11 @@ export async function moveMouseToCoordinates(page: any, x: number, y: number): P
  */
 export async function hoverNthElementByText(
   page: any,
-  indexStr: string,
+  indexStr: number | string,
   text: string,
   table?: any
 ): Promise<void> {
-  const index = parseInt(indexStr, 10);
+  const index = toIndex(indexStr);
   const options = parseClickOptions(table);
   const locator = page.getByText(text, { exact: false }).nth(index - 1);
 
@@ -159,7 +160,7 @@ export async function hoverNthElementByText(
   await locator.hover(options);
 
   setActiveElement(page, locator);
-  console.log(`✨ Hovered over ${indexStr} element with text "${text}"`);
+  console.log(`✨ Hovered over element #${index} with text "${text}"`);
 }
 
 /**
@@ -169,22 +170,31 @@ export async function hoverNthElementByText(
  */
 export async function hoverNthElementBySelector(
   page: any,
-  indexStr: string,
+  indexStr: number | string,
   selectorKey: string,
   table?: any
 ): Promise<void> {
-  const index = parseInt(indexStr, 10);
-  const options = parseClickOptions(table);
+  await hoverNthSelector(page, toIndex(indexStr), resolveSelector(selectorKey), table);
+}
 
-  const selectors = loadFixture("selectors.json");
-  const selector = getFixtureValue(selectors, selectorKey);
+/**
+ * Step form of hoverNthElementBySelector(): {ordinal} and {selector}
+ * have already parsed the index and resolved the selector.
+ */
+async function hoverNthSelector(
+  page: any,
+  index: number,
+  selector: string,
+  table?: any
+): Promise<void> {
+  const options = parseClickOptions(table);
 
   const locator = page.locator(selector).nth(index - 1);
   await locator.waitFor({ state: "visible", timeout: options.timeout || 5000 });
   await locator.hover(options);
 
   setActiveElement(page, locator);
-  console.log(`✨ Hovered over ${indexStr} selector "${selector}"`);
+  console.log(`✨ Hovered over selector "${selector}" #${index}`);
 }
 
 // ==================================================
@@ -198,5 +208,5 @@ Step("I pw scroll mouse window to position top:{int} left:{int}", scrollWindowSm
 Step("I pw scroll to {string}", scrollToDirection, "When");
 Step("I pw hover over the element {string}", hoverElement, "When");
 Step("I pw move mouse to coordinates {int}, {int}", moveMouseToCoordinates, "When");
-Step("I pw hover on {int}(?:st|nd|rd|th) element {string}", hoverNthElementByText, "When");
-Step("I pw hover on {int}(?:st|nd|rd|th) selector {string}", hoverNthElementBySelector, "When");
\ No newline at end of file
+Step("I pw hover on {ordinal} element {string}", hoverNthElementByText, "When");
+Step("I pw hover on {ordinal} selector {selector}", hoverNthSelector, "When");
\ No newline at end of file
@@ -1,6 +1,6 @@
 //src/backend/actions/visual.ts
-import { expect } from "@playwright/test";
-import { Step } from "../../core/registry";
+import { Page, expect, test } from "@playwright/test";
+import { Step, StepContext, defineStep } from "../../core/registry";
 import { loadFixture, getFixtureValue } from "../utils/fixtures";
 
 // ==================================================
@@ -78,13 +78,20 @@ export async function expectElementToCloselyMatch(page: any, selectorKey: string
 
 /**
  * Takes a screenshot and attaches it to the test report.
- * @param page - The Playwright page object
+ * @param pageOrContext - The step context, or a page when called from code inside a test
  * @param name - The name to identify the screenshot in the report
  * @example When I pw capture screenshot "error-state" for the report
  */
-export async function captureScreenshotForReport(page: any, name: string): Promise<void> {
-  await page.screenshot();
-  // This would typically be attached to the test report
+export async function captureScreenshotForReport(
+  pageOrContext: Page | StepContext,
+  name: string
+): Promise<void> {
+  const { page, testInfo } =
+    "testInfo" in pageOrContext
+      ? pageOrContext
+      : { page: pageOrContext, testInfo: test.info() };
+  const screenshot = await page.screenshot();
+  await testInfo.attach(name, { body: screenshot, contentType: "image/png" });
   console.log(`📎 Captured screenshot "${name}" for test report`);
 }
 
@@ -97,4 +104,4 @@ Step("I pw take a screenshot of element {string} as {string}", takeElementScreen
 Step("I pw take a viewport screenshot {string}", takeViewportScreenshot, "When");
 Step("I pw expect page {string} to closely match {string}", expectPageToCloselyMatch, "Then");
 Step("I pw expect element {string} screenshot {string} to closely match {string}", expectElementToCloselyMatch, "Then");
-Step("I pw capture screenshot {string} for the report", captureScreenshotForReport, "When");
\ No newline at end of file
+defineStep("I pw capture screenshot {string} for the report", captureScreenshotForReport, "When");
\ No newline at end of file
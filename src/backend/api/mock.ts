@@ -1,6 +1,7 @@
 import * as fs from "fs";
 import * as path from "path";
-import { Step } from "../../core/registry";
+import { Step, defineStep } from "../../core/registry";
+import { DocString, parseDocString } from "../../core/docString";
 import {
   loadFixture,
   getFixtureValue,
@@ -34,6 +35,36 @@ export async function mockApiWithInlineJson(
   console.log(`🎭 Mocked ${urlPattern} with inline JSON`);
 }
 
+/**
+ * Mocks an API endpoint with the response body written as a doc string.
+ * JSON unless the doc string names another type: """yaml is served as JSON,
+ * well-formed """xml as application/xml, other types as text with their Content-Type.
+ * Supports fixtures for reusable API endpoints.
+ * @example Given I pw mock the API endpoint "/api/users" with body:
+ * """yaml
+ * - id: 1
+ *   name: Fake
+ * """
+ */
+export async function mockApiWithDocString(
+  page: any,
+  urlPatternKey: string,
+  docString?: DocString | string
+): Promise<void> {
+  const endpoints = loadFixture("endpoints.json");
+  const urlPattern = getFixtureValue(endpoints, urlPatternKey);
+  const { data, contentType } = parseDocString(docString, `mocking "${urlPattern}"`);
+
+  await page.route(urlPattern, async (route: any) => {
+    await route.fulfill({
+      status: 200,
+      contentType,
+      body: typeof data === "string" ? data : JSON.stringify(data),
+    });
+  });
+  console.log(`🎭 Mocked ${urlPattern} with ${contentType} doc string`);
+}
+
 /**
  * Mocks an API endpoint using the contents of a local JSON file.
  * Supports fixtures for reusable API endpoints and mock files.
@@ -93,5 +124,10 @@ export async function mockApiStatus(
 // ==================================================
 
 Step("I pw mock the API endpoint {string} with body {string}", mockApiWithInlineJson, "Given");
+defineStep(
+  "I pw mock the API endpoint {string} with body:",
+  ({ page, docString }, url) => mockApiWithDocString(page, url, docString),
+  "Given"
+);
 Step("I pw mock the API endpoint {string} with response from {string}", mockApiWithFile, "Given");
 Step("I pw mock the API endpoint {string} with status {int}", mockApiStatus, "Given");
\ No newline at end of file
@@ -1,63 +1,42 @@
 //src/backend/api/network.ts
-import { Step } from "../../core/registry";
+import { Step, defineStep } from "../../core/registry";
+import { DataTable } from "../../core/dataTable";
+import { DocString, parseDocString } from "../../core/docString";
 import {
+  apiState,
+  parseKeyValueTable,
   setVariable,
 } from "../utils/state";
 
-// ==================================================
-// HELPER FUNCTIONS (Internal)
-// ==================================================
-
-/**
- * Helper: Safely parse JSON even if it comes with DocString quotes or is undefined.
- * Used internally by API steps to process Gherkin DocStrings.
- */
-function safeJsonParse(input: any, context: string): any {
-  if (!input) {
-    throw new Error(`❌ Missing JSON input for ${context}. Did you forget the DocString?`);
-  }
-
-  let text = typeof input === "string" ? input : JSON.stringify(input);
-
-  text = text.replace(/^"""/g, "").replace(/"""$/g, "");
-  text = text.trim();
-
-  try {
-    return JSON.parse(text);
-  } catch (e) {
-    throw new Error(
-      `❌ Invalid JSON for ${context}.\nReceived: ${text.slice(
-        0,
-        50
-      )}...\nError: ${(e as Error).message}`
-    );
-  }
-}
-
 // ==================================================
 // CORE FUNCTIONS
 // ==================================================
 
 /**
- * Intercepts a network URL and returns a stubbed JSON response.
- * Supports Gherkin DocStrings for the body content.
+ * Intercepts a network URL and returns the doc string as a stubbed response.
+ * The doc string is read as JSON unless it names another type
+ * ("""yaml, """xml, """graphql, ...), which also sets the Content-Type.
  * @example When I pw intercept URL "/api/user" and stub body:
- * """
+ * """json
  * { "id": 101, "status": "active" }
  * """
  */
-export async function interceptStubJson(page: any, url: string, body: any): Promise<void> {
-  const parsedBody = safeJsonParse(body, `stubbing "${url}"`);
+export async function interceptStubJson(
+  page: any,
+  url: string,
+  body?: DocString | string
+): Promise<void> {
+  const { data, contentType } = parseDocString(body, `stubbing "${url}"`);
 
   await page.route(url, (route: any) => {
     route.fulfill({
       status: 200,
-      contentType: "application/json",
-      body: JSON.stringify(parsedBody),
+      contentType,
+      body: typeof data === "string" ? data : JSON.stringify(data),
     });
   });
 
-  console.log(`📡 Stubbed "${url}" with JSON response.`);
+  console.log(`📡 Stubbed "${url}" with ${contentType} response.`);
 }
 
 /**
@@ -110,17 +89,27 @@ export async function apiGetRequest(page: any, url: string): Promise<void> {
 }
 
 /**
- * Makes a POST request with a JSON body provided via DocString.
+ * Makes a POST request with the body provided via DocString.
+ * JSON by default; """yaml is sent as JSON, """graphql as a { query } body, """xml as XML.
+ * The response is what "I pw expect the response ..." steps check.
  * @example When I pw make a POST request to "/api/login" with JSON body:
  * """
  * { "username": "admin", "password": "password123" }
  * """
  */
-export async function apiPostRequest(page: any, url: string, docString: any): Promise<void> {
-  const payload = safeJsonParse(docString, `POST to "${url}"`);
+export async function apiPostRequest(
+  page: any,
+  url: string,
+  docString?: DocString | string
+): Promise<void> {
+  const { data, contentType } = parseDocString(docString, `POST to "${url}"`);
 
   console.log(`⚡ POST request to: ${url}`);
-  const response = await page.request.post(url, { data: payload });
+  const response = await page.request.post(url, {
+    data,
+    headers: { "Content-Type": contentType },
+  });
+  apiState.setResponse(response);
 
   const status = response.status();
   const body = await response.text();
@@ -146,26 +135,20 @@ export async function browserFetchRequest(
   page: any,
   method: string,
   url: string,
-  table?: any
+  table?: DataTable | string[][]
 ): Promise<void> {
   const options: RequestInit = { method: method.toUpperCase() };
 
-  const rows = table && typeof table.rows === "function" ? table.rows() : table || [];
+  // Every row is a header, except "body"
+  for (const [key, val] of Object.entries(parseKeyValueTable(table))) {
+    if (!key) continue;
 
-  if (Array.isArray(rows)) {
-    rows.forEach((row: any) => {
-      const key = Array.isArray(row) ? row[0] : row.header || row.key;
-      const val = Array.isArray(row) ? row[1] : row.value;
-
-      if (!key) return;
-
-      if (key.toLowerCase() === "body") {
-        options.body = val;
-      } else {
-        if (!options.headers) options.headers = {};
-        (options.headers as any)[key] = val;
-      }
-    });
+    if (key.toLowerCase() === "body") {
+      options.body = val;
+    } else {
+      if (!options.headers) options.headers = {};
+      (options.headers as any)[key] = val;
+    }
   }
 
   console.log(`⚡ Browser Fetch: ${method} ${url}`);
@@ -197,9 +180,18 @@ export async function browserFetchRequest(
 // GLUE STEPS
 // ==================================================
 
-Step("I pw intercept URL {string} and stub body:", interceptStubJson, "When"); // Handles DocString
+// Doc string steps use defineStep() to receive the doc string's media type
+defineStep(
+  "I pw intercept URL {string} and stub body:",
+  ({ page, docString }, url) => interceptStubJson(page, url, docString),
+  "When"
+);
 Step("I pw intercept URL {string} and stub body {string}", interceptStubRaw, "When");
 Step("I pw intercept URL {string}", interceptSpy, "When");
 Step("I pw make request to {string}", apiGetRequest, "When");
-Step("I pw make a POST request to {string} with JSON body:", apiPostRequest, "When"); // Handles DocString
+defineStep(
+  "I pw make a POST request to {string} with JSON body:",
+  ({ page, docString }, url) => apiPostRequest(page, url, docString),
+  "When"
+);
 Step("I pw make a {word} request to {string}", browserFetchRequest, "When");
\ No newline at end of file
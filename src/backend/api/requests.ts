@@ -2,7 +2,8 @@
 import * as fs from "fs";
 import * as path from "path";
 import { Step } from "../../core/registry";
-import { apiState } from "../utils/state";
+import { DataTable } from "../../core/dataTable";
+import { apiState, parseKeyValueTable } from "../utils/state";
 import { loadFixture, getFixtureValue } from "../utils/fixtures";
 // ==================================================
 // CORE FUNCTIONS
@@ -45,17 +46,14 @@ export async function makeDeleteRequest(page: any, urlKey: string): Promise<void
 export async function makePostRequestWithTable(
   page: any,
   urlKey: string,
-  tableData: string[][]
+  tableData: DataTable | string[][]
 ): Promise<void> {
   if (!tableData) throw new Error("This step requires a Data Table.");
 
   const endpoints = loadFixture("endpoints.json");
   const url = getFixtureValue(endpoints, urlKey);
 
-  const payload = tableData.reduce((acc: any, row: string[]) => {
-    acc[row[0]] = row[1];
-    return acc;
-  }, {});
+  const payload = parseKeyValueTable(tableData);
 
   const response = await page.request.post(url, {
     data: payload,
@@ -104,7 +102,8 @@ export async function makePostRequestWithFile(
 // GLUE STEPS
 // ==================================================
 
-Step("I pw make a GET request to {string}", makeGetRequest, "When");
-Step("I pw make a DELETE request to {string}", makeDeleteRequest, "When");
+// Take precedence over the generic browser fetch step "I pw make a {word} request to {string}"
+Step("I pw make a GET request to {string}", makeGetRequest, { type: "When", priority: 1 });
+Step("I pw make a DELETE request to {string}", makeDeleteRequest, { type: "When", priority: 1 });
 Step("I pw make a POST request to {string} with data", makePostRequestWithTable, "When");
 Step("I pw make a POST request to {string} with payload from {string}", makePostRequestWithFile, "When");
\ No newline at end of file
@@ -2,7 +2,8 @@
 import { expect } from "@playwright/test";
 import { Step } from "../../core/registry";
 import { loadFixture, getFixtureValue } from "../utils/fixtures";
-import { dbState } from "../utils/state";
+import { dbState, parseKeyValueTable } from "../utils/state";
+import { DataTable } from "../../core/dataTable";
 // ==================================================
 // CORE FUNCTIONS
 // ==================================================
@@ -58,7 +59,7 @@ export async function expectDbNoRecords(_page: any): Promise<void> {
  */
 export async function expectFirstDbRecordToContain(
   page: any,
-  tableData: string[][]
+  tableData: DataTable | string[][]
 ): Promise<void> {
   const result = dbState.getLastResult();
 
@@ -71,9 +72,7 @@ export async function expectFirstDbRecordToContain(
 
   const firstRow = result[0];
 
-  for (const row of tableData) {
-    const key = row[0];
-    const expectedValue = row[1];
+  for (const [key, expectedValue] of Object.entries(parseKeyValueTable(tableData))) {
 
     if (!(key in firstRow)) {
       throw new Error(`❌ DB Record does not have column: "${key}"`);
@@ -96,7 +95,7 @@ export async function expectFirstDbRecordToContain(
 export async function expectDbRowToContain(
   page: any,
   index: number,
-  tableData: string[][]
+  tableData: DataTable | string[][]
 ): Promise<void> {
   const result = dbState.getLastResult();
 
@@ -116,9 +115,7 @@ export async function expectDbRowToContain(
 
   const targetRow = result[index - 1]; // Convert 1-based to 0-based index
 
-  for (const row of tableData) {
-    const key = row[0];
-    const expectedValue = row[1];
+  for (const [key, expectedValue] of Object.entries(parseKeyValueTable(tableData))) {
 
     if (!(key in targetRow)) {
       throw new Error(`❌ DB Record does not have column: "${key}"`);
@@ -138,7 +135,10 @@ export async function expectDbRowToContain(
  * @example Then I pw expect all database records to contain
  * | status | active |
  */
-export async function expectAllDbRecordsToContain(page: any, tableData: string[][]): Promise<void> {
+export async function expectAllDbRecordsToContain(
+  page: any,
+  tableData: DataTable | string[][]
+): Promise<void> {
   const result = dbState.getLastResult();
 
   if (!Array.isArray(result)) {
@@ -153,12 +153,12 @@ export async function expectAllDbRecordsToContain(page: any, tableData: string[]
     throw new Error("❌ This step requires a Data Table.");
   }
 
+  const expected = parseKeyValueTable(tableData);
+
   for (let i = 0; i < result.length; i++) {
     const row = result[i];
 
-    for (const tableRow of tableData) {
-      const key = tableRow[0];
-      const expectedValue = tableRow[1];
+    for (const [key, expectedValue] of Object.entries(expected)) {
 
       if (!(key in row)) {
         throw new Error(`❌ DB Record ${i + 1} does not have column: "${key}"`);
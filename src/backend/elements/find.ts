@@ -1,6 +1,7 @@
 //src/backend/elements/find.ts
 import { expect } from "@playwright/test";
 import { Step } from "../../core/registry";
+import { toIndex } from "../../core/parameterTypes";
 import {
   setActiveElement,
   setActiveElements,
@@ -176,10 +177,11 @@ export async function findButtonsByText(page: any, text: string): Promise<void>
 /**
  * Selects the nth element from the currently stored list.
  * Uses 1-based indexing (e.g., 1st, 2nd, 3rd).
+ * @param indexStr - The 1-based index: a number, or a string like "2nd"
  * @example When I pw get 2nd element
  */
-export async function getNthElement(page: any, indexStr: string): Promise<void> {
-  const index = parseInt(indexStr, 10);
+export async function getNthElement(page: any, indexStr: number | string): Promise<void> {
+  const index = toIndex(indexStr);
   const elements = getActiveElements(page);
   const count = await elements.count();
 
@@ -344,7 +346,7 @@ Step("I pw get elements by selector {string}", findElementsBySelector, "When");
 Step("I pw find buttons by text {string}", findButtonsByText, "When");
 Step("I pw get first element", getFirstElement, "When");
 Step("I pw get last element", getLastElement, "When");
-Step("I pw get {int}(?:st|nd|rd|th) element", getNthElement, "When");
+Step("I pw get {ordinal} element", getNthElement, "When");
 Step("I pw store element text as {string}", storeElementText, "When");
 Step("I pw get focused element", getFocusedElement, "When");
 Step("I pw find textarea by label text {string}", findTextareaByLabel, "When");
@@ -1,5 +1,5 @@
 //src/backend/utils/fixtures.ts
-import { readFileSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import { resolve } from "path";
 import dotenv from "dotenv";
 
@@ -228,6 +228,18 @@ export function loadFixture(fileName: string): Record<string, any> {
         return {};
     }
 }
+
+/**
+ * Resolves a data file path the way fixtures are found: inside the fixtures directory,
+ * falling back to the project root (so both "users.csv" and "fixtures/users.csv" work).
+ * @param filePath - Path relative to the fixtures directory or the project root.
+ * @returns The absolute path; it may not exist.
+ */
+export function resolveFixturePath(filePath: string): string {
+    const inFixturesDir = resolve(process.cwd(), fixtureConfig.fixturesDir, filePath);
+    return existsSync(inFixturesDir) ? inFixturesDir : resolve(process.cwd(), filePath);
+}
+
 /**
  * Retrieves a specific value from a loaded fixture.
  * Returns the raw key if fixture or key is not found (fallback to raw selector).
@@ -1,15 +1,18 @@
 // src/backend/utils/state.ts
 import { Page, Locator, APIResponse } from "@playwright/test";
+import { DbQuery, getWorld } from "../../core/world";
+import { DataTable } from "../../core/dataTable";
 
 // 1. STATE MANAGEMENT
-// We attach data to the Playwright Page object so it persists between steps.
+// Data lives in the scenario's World, which the runner resets before every test.
+// The page parameter is kept so existing custom steps keep compiling.
 
-export function setActiveElement(page: Page, element: Locator) {
-  (page as any).__bdd_element = element;
+export function setActiveElement(_page: Page, element: Locator) {
+  getWorld().activeElement = element;
 }
 
-export function getActiveElement(page: Page): Locator {
-  const el = (page as any).__bdd_element;
+export function getActiveElement(_page: Page): Locator {
+  const el = getWorld().activeElement;
   if (!el) {
     throw new Error(
       "❌ No stored element found. Did you forget a 'When I find...' step?"
@@ -18,12 +21,12 @@ export function getActiveElement(page: Page): Locator {
   return el;
 }
 
-export function setActiveElements(page: Page, elements: Locator) {
-  (page as any).__bdd_elements = elements;
+export function setActiveElements(_page: Page, elements: Locator) {
+  getWorld().activeElements = elements;
 }
 
-export function getActiveElements(page: Page): Locator {
-  const els = (page as any).__bdd_elements;
+export function getActiveElements(_page: Page): Locator {
+  const els = getWorld().activeElements;
   if (!els) {
     throw new Error("❌ No stored elements list found.");
   }
@@ -32,22 +35,31 @@ export function getActiveElements(page: Page): Locator {
 
 // 2. DATA / ALIAS MANAGEMENT (for @variable support)
 
-export function setVariable(page: Page, key: string, value: any) {
-  if (!(page as any).__bdd_data) {
-    (page as any).__bdd_data = {};
-  }
-  (page as any).__bdd_data[key] = value;
+export function setVariable(_page: Page, key: string, value: any) {
+  getWorld().variables[key] = value;
 }
 
-export function getVariable(page: Page, key: string): any {
-  const data = (page as any).__bdd_data;
-  return data ? data[key] : undefined;
+export function getVariable(_page: Page, key: string): any {
+  return getWorld().variables[key];
 }
 
 // 3. OPTION PARSERS
 // Converts Gherkin DataTables into Playwright ClickOptions
 
-export function parseClickOptions(table: any): {
+/**
+ * Reads a key/value table: the first cell of a row is the key, the second its value.
+ * Unlike DataTable.rowsHash(), extra cells (e.g. a notes column) are ignored
+ * and rows with a single cell skipped, as the built-in steps always allowed.
+ */
+export function parseKeyValueTable(table?: DataTable | string[][]): Record<string, string> {
+  const hash: Record<string, string> = {};
+  DataTable.wrap(table).forEach((row) => {
+    if (row.length >= 2) hash[row[0]] = row[1];
+  });
+  return hash;
+}
+
+export function parseClickOptions(table?: DataTable | string[][]): {
   force?: boolean;
   button?: "left" | "right" | "middle";
   modifiers?: Array<"Alt" | "Control" | "Meta" | "Shift">;
@@ -56,21 +68,8 @@ export function parseClickOptions(table: any): {
 } {
   if (!table) return {};
 
-  let hash: Record<string, string> = {};
-
-  // Handle Cucumber DataTable object (legacy) or raw Array
-  if (typeof table.rowsHash === "function") {
-    hash = table.rowsHash();
-  } else if (Array.isArray(table)) {
-    // Convert Array of Arrays [['force', 'true']] to Object { force: 'true' }
-    table.forEach((row) => {
-      if (Array.isArray(row) && row.length >= 2) {
-        hash[row[0].toString()] = row[1].toString();
-      }
-    });
-  } else {
-    return {};
-  }
+  // | force | true | rows become { force: "true" }
+  const hash = parseKeyValueTable(table);
 
   const options: any = {};
 
@@ -96,7 +95,7 @@ export function parseClickOptions(table: any): {
 }
 /**
  * Resolves a raw value, handling variable aliases.
- * If a value starts with "@", it retrieves it from the global state.
+ * If a value starts with "@", it retrieves it from the scenario's World.
  * @param page - The Playwright Page object.
  * @param rawValue - The raw value to resolve.
  * @returns The resolved value.
@@ -122,14 +121,13 @@ export function resolveValue(page: any, rawValue: string): string {
 
 // API RESPONSE STORAGE
 // We use this to store the last API response for assertions in "Then" steps.
-// A simple storage to hold the response between the "When" and "Then" steps
-let lastResponse: APIResponse | null = null;
-
+// The response lives in the scenario's World between the "When" and "Then" steps
 export const apiState = {
   setResponse: (response: APIResponse) => {
-    lastResponse = response;
+    getWorld().lastResponse = response;
   },
   getResponse: () => {
+    const lastResponse = getWorld().lastResponse;
     if (!lastResponse)
       throw new Error(
         "No API response found. Did you run a 'When I make a request' step first?"
@@ -140,30 +138,32 @@ export const apiState = {
 
 
 // DATABASE QUERY STATE
-// We use this to store a user-provided DB query function and the last result.
-// Holds the user's custom DB function
-let dbAdapter: ((query: string) => Promise<any>) | null = null;
-let lastResult: any = null;
+// The runner copies RunnerOptions.dbQuery into each scenario's World;
+// the last result is stored there too.
+// Fallback DB function for code that registers it directly instead of via runTests()
+let defaultAdapter: DbQuery | null = null;
 
 export const dbState = {
-  // Runner calls this to register the user's function
-  setAdapter: (fn: (query: string) => Promise<any>) => {
-    dbAdapter = fn;
+  // Registers a DB function for scenarios that did not get one from runTests()
+  setAdapter: (fn: DbQuery) => {
+    defaultAdapter = fn;
   },
 
   // Step calls this to run a query
   executeQuery: async (query: string) => {
+    const world = getWorld();
+    const dbAdapter = world.dbQuery ?? defaultAdapter;
     if (!dbAdapter) {
       throw new Error(
         "❌ No Database Adapter found. Pass a 'dbQuery' function to runTests()."
       );
     }
     const result = await dbAdapter(query);
-    lastResult = result;
-    console.log(`🗄️ DB Result:`, JSON.stringify(lastResult));
+    world.lastDbResult = result;
+    console.log(`🗄️ DB Result:`, JSON.stringify(result));
     return result;
   },
 
   // Assertions use this to check results
-  getLastResult: () => lastResult,
+  getLastResult: () => getWorld().lastDbResult,
 };
@@ -0,0 +1,36 @@
+// src/core/browserless.ts
+import { APIRequestContext } from "@playwright/test";
+
+const BROWSERLESS = Symbol("browserless");
+
+/**
+ * Creates a stand-in for a Page, BrowserContext or Browser in API-only scenarios.
+ * Only `request` is available, so API steps using `page.request` keep working;
+ * any other access fails with an error explaining that no browser was launched.
+ * @param kind - "page", "context" or "browser", used in the error message
+ * @param request - The APIRequestContext served as `request`
+ */
+export function createBrowserless<T>(
+  kind: "page" | "context" | "browser",
+  request?: APIRequestContext
+): T {
+  return new Proxy({} as any, {
+    get(_target, prop) {
+      if (prop === BROWSERLESS) return true;
+      if (prop === "request" && request) return request;
+      // Let await, console.log and similar probes through
+      if (typeof prop === "symbol" || prop === "then" || prop === "toJSON") return undefined;
+      throw new Error(
+        `❌ ${kind}.${prop} is not available: this scenario runs without a browser (@api). ` +
+          `Remove the @api tag to run UI steps.`
+      );
+    },
+  }) as T;
+}
+
+/**
+ * True for objects created by createBrowserless().
+ */
+export function isBrowserless(value: unknown): boolean {
+  return Boolean(value && (value as any)[BROWSERLESS]);
+}
@@ -0,0 +1,179 @@
+// src/core/dataExamples.ts
+import * as fs from "fs";
+import * as path from "path";
+import { Examples, Location, Scenario, TableRow, Tag } from "@cucumber/messages";
+import { resolveFixturePath } from "../backend/utils/fixtures";
+
+const DATA_TAG = "@data:";
+
+/**
+ * Adds Examples for every `@data:<file>` tag on a Scenario Outline, one block
+ * per record of the file, so compiling the document generates one pickle per
+ * record. Column names become the <placeholders>.
+ * - `@data:users.csv` reads a CSV file whose first line holds the column names.
+ * - `@data:users.json` reads a JSON array of objects.
+ * - `@data:users.json#admins` reads the array under a (dotted) key.
+ * Files are looked up in the fixtures directory, then in the project root.
+ */
+export function addDataExamples(scenarios: Scenario[], uri: string, newId: () => string) {
+  for (const scenario of scenarios) {
+    for (const tag of scenario.tags.filter((t) => t.name.startsWith(DATA_TAG))) {
+      const where = `${uri}:${tag.location.line}`;
+      const reference = tag.name.slice(DATA_TAG.length);
+      const records = loadRecords(reference, where);
+      (scenario.examples as Examples[]).push(...toExamples(reference, records, tag, newId));
+    }
+  }
+}
+
+function loadRecords(reference: string, where: string): Record<string, string>[] {
+  const [file, key] = reference.split("#");
+  const fullPath = resolveFixturePath(file);
+  if (!file || !fs.existsSync(fullPath)) {
+    throw new Error(`❌ Data file "${file}" of @data tag not found (${where}).`);
+  }
+
+  const content = fs.readFileSync(fullPath, "utf8").replace(/^\uFEFF/, "");
+  const extension = path.extname(file).toLowerCase();
+  let records: Record<string, string>[];
+  if (extension === ".csv") {
+    if (key) {
+      throw new Error(`❌ @data:${reference}: "#${key}" is only supported for JSON files (${where}).`);
+    }
+    records = csvRecords(content, reference, where);
+  } else if (extension === ".json") {
+    records = jsonRecords(content, key, reference, where);
+  } else {
+    throw new Error(
+      `❌ @data:${reference}: unsupported file type "${extension}", use .csv or .json (${where}).`
+    );
+  }
+
+  if (records.length === 0) {
+    throw new Error(`❌ @data:${reference} has no records (${where}).`);
+  }
+  return records;
+}
+
+function csvRecords(content: string, reference: string, where: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(content).filter(
+    (row) => row.length > 1 || row[0] !== ""
+  );
+  return rows.map((row, index) => {
+    if (row.length !== header.length) {
+      throw new Error(
+        `❌ @data:${reference}: record ${index + 1} has ${row.length} values ` +
+          `but the header has ${header.length} columns (${where}).`
+      );
+    }
+    return Object.fromEntries(header.map((column, i) => [column.trim(), row[i]]));
+  });
+}
+
+function jsonRecords(
+  content: string,
+  key: string | undefined,
+  reference: string,
+  where: string
+): Record<string, string>[] {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`❌ @data:${reference}: invalid JSON: ${(e as Error).message} (${where}).`);
+  }
+  for (const part of key ? key.split(".") : []) {
+    data = data?.[part];
+  }
+  if (!Array.isArray(data) || data.some((record) => !record || typeof record !== "object")) {
+    const target = key ? `"${key}"` : "the file";
+    throw new Error(`❌ @data:${reference}: ${target} must be an array of objects (${where}).`);
+  }
+  return data.map((record) =>
+    Object.fromEntries(
+      Object.entries(record).map(([column, value]) => [
+        column,
+        value === null || value === undefined
+          ? ""
+          : typeof value === "object"
+            ? JSON.stringify(value)
+            : String(value),
+      ])
+    )
+  );
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with commas,
+ * line breaks and doubled quotes ("a ""b"""), and CRLF line endings.
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Builds one single-row Examples block per record, named after the file and
+ * the record number (e.g. "users.csv #3"), so identical records still get
+ * distinct test titles. Every row points at the @data tag, which is where
+ * the records come from in the feature file.
+ */
+function toExamples(
+  reference: string,
+  records: Record<string, string>[],
+  tag: Tag,
+  newId: () => string
+): Examples[] {
+  const columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const location: Location = tag.location;
+  const toRow = (values: string[]): TableRow => ({
+    id: newId(),
+    location,
+    cells: values.map((value) => ({ location, value })),
+  });
+
+  return records.map((record, index) => ({
+    id: newId(),
+    location,
+    tags: [],
+    keyword: "Examples",
+    name: `${reference} #${index + 1}`,
+    description: "",
+    tableHeader: toRow(columns),
+    tableBody: [toRow(columns.map((column) => record[column] ?? ""))],
+  }));
+}
@@ -0,0 +1,139 @@
+// src/core/dataTable.ts
+import { getWorld } from "./world";
+import { resolveEnvVariable } from "../backend/utils/fixtures";
+
+/**
+ * How a column (or rowsHash key) is converted: a built-in name or a function.
+ */
+export type ColumnType =
+  | "string"
+  | "number"
+  | "int"
+  | "boolean"
+  | "json"
+  | ((value: string) => any);
+
+export type ColumnTypes = Record<string, ColumnType>;
+
+/**
+ * The data table of a step. It is still an array of rows (string[][]),
+ * so existing steps iterating the cells keep working, with helpers
+ * to read it as objects.
+ * @example
+ * | name  | age |
+ * | Alice | 30  |
+ * table.hashes({ age: "int" }) // [{ name: "Alice", age: 30 }]
+ */
+export class DataTable extends Array<string[]> {
+  // map(), filter(), ... return plain arrays, not DataTables
+  static get [Symbol.species]() {
+    return Array;
+  }
+
+  constructor(cells: readonly (readonly string[])[] = []) {
+    super();
+    cells.forEach((row) => this.push([...row]));
+  }
+
+  /**
+   * Wraps rows in a DataTable; returns the table itself when it already is one.
+   * Missing tables become an empty DataTable.
+   */
+  static wrap(table?: readonly (readonly string[])[] | null): DataTable {
+    if (table instanceof DataTable) return table;
+    return new DataTable(Array.isArray(table) ? table : []);
+  }
+
+  /**
+   * Copies the table with "@alias" cells replaced by stored values
+   * and {{ENV_VAR}} placeholders resolved. Done by the runner before each step.
+   */
+  static interpolate(table: readonly (readonly string[])[]): DataTable {
+    return new DataTable(table.map((row) => row.map(interpolateCell)));
+  }
+
+  /** Every row, header included. */
+  raw(): string[][] {
+    return this.map((row) => [...row]);
+  }
+
+  /** Every row except the header. */
+  rows(): string[][] {
+    return this.raw().slice(1);
+  }
+
+  /**
+   * One object per row, keyed by the header row.
+   * @param types - Converts the named columns, e.g. { age: "int", active: "boolean" }
+   */
+  hashes(types?: ColumnTypes): Record<string, any>[] {
+    const [header = [], ...rows] = this;
+    return rows.map((row) => {
+      const hash: Record<string, any> = {};
+      header.forEach((column, index) => {
+        hash[column] = convertCell(row[index] ?? "", column, types?.[column]);
+      });
+      return hash;
+    });
+  }
+
+  /**
+   * Reads a two-column table as an object: first column keys, second column values.
+   * @param types - Converts the values of the named keys
+   */
+  rowsHash(types?: ColumnTypes): Record<string, any> {
+    const hash: Record<string, any> = {};
+    this.forEach((row) => {
+      if (row.length !== 2) {
+        throw new Error(
+          `❌ rowsHash() needs a table with 2 columns, but row "| ${row.join(" | ")} |" has ${row.length}.`
+        );
+      }
+      hash[row[0]] = convertCell(row[1], row[0], types?.[row[0]]);
+    });
+    return hash;
+  }
+
+  /** Swaps rows and columns. */
+  transpose(): DataTable {
+    const width = Math.max(0, ...this.map((row) => row.length));
+    return new DataTable(
+      Array.from({ length: width }, (_, column) => this.map((row) => row[column] ?? ""))
+    );
+  }
+}
+
+function interpolateCell(cell: string): string {
+  const value = resolveEnvVariable(cell);
+  if (!value.startsWith("@")) return value;
+  const stored = getWorld().variables[value.slice(1)];
+  if (stored === undefined) return value;
+  return typeof stored === "object" ? JSON.stringify(stored) : String(stored);
+}
+
+function convertCell(value: string, column: string, type?: ColumnType): any {
+  if (!type || type === "string") return value;
+  if (typeof type === "function") return type(value);
+
+  const fail = (expected: string): never => {
+    throw new Error(`❌ Data table column "${column}": "${value}" is not ${expected}.`);
+  };
+  switch (type) {
+    case "number":
+    case "int": {
+      const number = Number(value);
+      if (value.trim() === "" || Number.isNaN(number)) fail("a number");
+      if (type === "int" && !Number.isInteger(number)) fail("an integer");
+      return number;
+    }
+    case "boolean":
+      if (value !== "true" && value !== "false") fail('"true" or "false"');
+      return value === "true";
+    case "json":
+      try {
+        return JSON.parse(value);
+      } catch {
+        return fail("valid JSON");
+      }
+  }
+}
@@ -0,0 +1,124 @@
+// src/core/docString.ts
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * A step's doc string. `mediaType` is the word written after the opening
+ * delimiter, e.g. "json" for """json (or ```json).
+ */
+export interface DocString {
+  content: string;
+  mediaType?: string;
+  /** The delimiter it was written with: """ or ```. Unset for doc strings built in code. */
+  delimiter?: string;
+}
+
+/**
+ * A doc string converted into a request or response body.
+ */
+export interface DocStringBody {
+  /** Parsed value for json, yaml and graphql; the text itself otherwise. */
+  data: any;
+  /** Content-Type matching the media type, e.g. "application/json". */
+  contentType: string;
+}
+
+// Content-Type of the doc string text itself, by media type
+const MEDIA_TYPES: Record<string, string> = {
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  xml: "application/xml",
+  graphql: "application/graphql",
+  html: "text/html",
+  csv: "text/csv",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  js: "text/javascript",
+  javascript: "text/javascript",
+  text: "text/plain",
+  txt: "text/plain",
+};
+
+/**
+ * Maps a doc string media type to a Content-Type: short names such as "json"
+ * or "xml" are looked up, full types such as "application/vnd.api+json" are
+ * kept, and anything else is plain text.
+ */
+export function getMediaContentType(mediaType?: string): string {
+  if (!mediaType) return "text/plain";
+  const type = mediaType.toLowerCase();
+  return type.includes("/") ? type : (MEDIA_TYPES[type] ?? "text/plain");
+}
+
+/**
+ * Reads a doc string according to its media type. json and yaml are parsed into
+ * objects and sent as JSON, graphql becomes a `{ query }` request body, and xml
+ * is checked to be well-formed before being sent as text. Other types are sent
+ * as text with their Content-Type (see getMediaContentType).
+ * @param docString - The step's doc string (plain strings have no media type)
+ * @param context - What the body is for, used in error messages (e.g. 'POST to "/api/login"')
+ * @param defaultType - Media type assumed when the doc string has none (default "json")
+ */
+export function parseDocString(
+  docString: DocString | string | undefined,
+  context: string,
+  defaultType = "json"
+): DocStringBody {
+  if (docString === undefined) {
+    throw new Error(`❌ Missing doc string for ${context}. Add a """ block below the step.`);
+  }
+  const { content, mediaType } =
+    typeof docString === "string" ? { content: docString, mediaType: undefined } : docString;
+  const type = (mediaType || defaultType).toLowerCase();
+
+  switch (type) {
+    case "json":
+      try {
+        return { data: JSON.parse(content), contentType: "application/json" };
+      } catch (e) {
+        throw invalid("JSON", context, content, e);
+      }
+    case "yaml":
+    case "yml":
+      try {
+        return { data: parseYaml(content), contentType: "application/json" };
+      } catch (e) {
+        throw invalid("YAML", context, content, e);
+      }
+    case "graphql":
+      return { data: { query: content }, contentType: "application/json" };
+    case "xml":
+      try {
+        checkXml(content);
+      } catch (e) {
+        throw invalid("XML", context, content, e);
+      }
+      return { data: content, contentType: getMediaContentType(type) };
+    default:
+      return { data: content, contentType: getMediaContentType(type) };
+  }
+}
+
+/**
+ * Checks that the XML is well-formed (tags, attributes, entities) and has a
+ * single root element. The XML declaration and comments may surround it.
+ */
+function checkXml(content: string) {
+  const result = XMLValidator.validate(content);
+  if (result !== true) {
+    const { msg, line, col } = result.err;
+    throw new Error(col ? `${msg} (line ${line}, column ${col})` : `${msg} (line ${line})`);
+  }
+  const roots = new XMLParser({ preserveOrder: true })
+    .parse(content)
+    .filter((node: Record<string, unknown>) => !/^[?#]/.test(Object.keys(node)[0] ?? ""));
+  if (roots.length !== 1) throw new Error(`expected one root element, found ${roots.length}`);
+}
+
+function invalid(format: string, context: string, content: string, error: unknown): Error {
+  const preview = content.length > 80 ? `${content.slice(0, 80)}...` : content;
+  return new Error(
+    `❌ Invalid ${format} doc string for ${context}: ${(error as Error).message}\n   Received: ${preview}`
+  );
+}
@@ -0,0 +1,207 @@
+// src/core/dryRun.ts
+import { Pickle, PickleStep } from "@cucumber/messages";
+import { StepDefinition, stepRegistry } from "./registry";
+import { StepMatch, describeDefinition, findMatchingStep } from "./matcher";
+import {
+  ParsedFeature,
+  formatLocation,
+  getMatchText,
+  getStepLocation,
+  parseFeatureFile,
+} from "./gherkin";
+import { suggestSteps } from "./snippets";
+import { expandMacro } from "./macros";
+
+export interface DryRunIssue {
+  /** "features/login.feature:12" */
+  location: string;
+  text: string;
+  message: string;
+}
+
+export interface DryRunReport {
+  parseErrors: string[];
+  undefinedSteps: DryRunIssue[];
+  ambiguousSteps: DryRunIssue[];
+  argumentErrors: DryRunIssue[];
+  unusedSteps: StepDefinition[];
+  stepCount: number;
+}
+
+/**
+ * Data tables and doc strings are appended after the captured parameters,
+ * so a step function declaring more parameters than that accepts one.
+ * Gherkin convention marks steps that require one with a trailing colon.
+ * defineStep() functions read them from the StepContext, so they are not checked.
+ */
+function checkStepArgument(step: PickleStep, match: StepMatch): string | null {
+  if (match.definition.usesContext) return null;
+
+  const supplied = step.argument?.dataTable
+    ? "data table"
+    : step.argument?.docString
+      ? "doc string"
+      : null;
+  const extraParams = match.fn.length - 1 - match.argCount;
+  const pattern = match.definition.pattern;
+  const source = pattern instanceof RegExp ? pattern.source.replace(/\$$/, "") : pattern;
+
+  if (supplied && extraParams < 1) {
+    return `Step does not accept a ${supplied} (${describeDefinition(match.definition)})`;
+  }
+  if (!supplied && extraParams >= 1 && source.endsWith(":")) {
+    return `Step expects a data table or doc string (${describeDefinition(match.definition)})`;
+  }
+  return null;
+}
+
+/**
+ * Resolves one step and checks its data table / doc string. The inner steps of
+ * a macro are checked too, reported at their own line followed by "via" and
+ * the location of the macro step.
+ * @param macros - Macros the step is nested in, to stop at recursive macros
+ */
+function checkStep(
+  step: PickleStep,
+  location: string,
+  report: DryRunReport,
+  used: Set<StepDefinition>,
+  seen: Set<string>,
+  macros: StepDefinition[]
+) {
+  const text = getMatchText(step);
+
+  // Outline rows share AST steps: report each location + text once
+  const key = `${location}|${text}`;
+  const firstSeen = !seen.has(key);
+  seen.add(key);
+  report.stepCount++;
+
+  let match: StepMatch | null;
+  try {
+    match = findMatchingStep(text);
+  } catch (error: any) {
+    if (firstSeen) report.ambiguousSteps.push({ location, text, message: error.message });
+    return;
+  }
+
+  if (!match) {
+    const suggestion = suggestSteps(text)[0];
+    const message = suggestion ? `Did you mean: ${suggestion}` : "Undefined step";
+    if (firstSeen) report.undefinedSteps.push({ location, text, message });
+    return;
+  }
+
+  used.add(match.definition);
+  const argumentError = checkStepArgument(step, match);
+  if (argumentError && firstSeen) {
+    report.argumentErrors.push({ location, text, message: argumentError });
+  }
+
+  // A recursive macro fails at run time with its own error
+  if (macros.includes(match.definition)) return;
+  for (const inner of expandMacro(match.definition, match.rawArgs, step) ?? []) {
+    const innerLocation = `${formatLocation(inner.location)} via ${location}`;
+    checkStep(inner.step, innerLocation, report, used, seen, [...macros, match.definition]);
+  }
+}
+
+/**
+ * Validates feature files without launching a browser: every selected step is
+ * resolved against the registry and checked for a matching data table / doc string.
+ * @param files - Feature files to validate
+ * @param select - Decides which pickles take part (tag filter, @ignore)
+ * @param language - Dialect for files without a language header
+ */
+export function dryRun(
+  files: string[],
+  select: (pickle: Pickle) => boolean,
+  language?: string
+): DryRunReport {
+  const report: DryRunReport = {
+    parseErrors: [],
+    undefinedSteps: [],
+    ambiguousSteps: [],
+    argumentErrors: [],
+    unusedSteps: [],
+    stepCount: 0,
+  };
+  const used = new Set<StepDefinition>();
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    let parsed: ParsedFeature;
+    try {
+      parsed = parseFeatureFile(file, language);
+    } catch (error: any) {
+      report.parseErrors.push(error.message);
+      continue;
+    }
+
+    for (const pickle of parsed.pickles.filter(select)) {
+      for (const step of pickle.steps) {
+        const location = formatLocation(getStepLocation(parsed, step));
+        checkStep(step, location, report, used, seen, []);
+      }
+    }
+  }
+
+  report.unusedSteps = stepRegistry.filter((step) => !used.has(step));
+  return report;
+}
+
+/**
+ * True when the report contains anything that would fail a real run.
+ */
+export function hasDryRunFailures(report: DryRunReport): boolean {
+  return (
+    report.parseErrors.length > 0 ||
+    report.undefinedSteps.length > 0 ||
+    report.ambiguousSteps.length > 0 ||
+    report.argumentErrors.length > 0
+  );
+}
+
+/**
+ * Formats a dry-run report for the console.
+ * @param options.unused - List the unused step definitions (default true); the
+ * library alone registers hundreds, so failure messages leave them out
+ */
+export function formatDryRunReport(
+  report: DryRunReport,
+  options: { unused?: boolean } = {}
+): string {
+  const lines = [`🧪 Dry run: ${report.stepCount} steps checked`];
+
+  const section = (title: string, issues: DryRunIssue[]) => {
+    if (issues.length === 0) return;
+    lines.push("", `${title} (${issues.length}):`);
+    issues.forEach((issue) => {
+      lines.push(`   ${issue.location}  ${issue.text}`);
+      if (issue.message.includes("\n")) {
+        issue.message.split("\n").slice(1).forEach((line) => lines.push(`   ${line}`));
+      } else if (issue.message !== "Undefined step") {
+        lines.push(`      ${issue.message}`);
+      }
+    });
+  };
+
+  if (report.parseErrors.length > 0) {
+    lines.push("", `❌ Parse errors (${report.parseErrors.length}):`);
+    report.parseErrors.forEach((error) => lines.push(error));
+  }
+  section("❌ Undefined steps", report.undefinedSteps);
+  section("❌ Ambiguous steps", report.ambiguousSteps);
+  section("❌ Data table / doc string mismatches", report.argumentErrors);
+
+  if (options.unused !== false && report.unusedSteps.length > 0) {
+    lines.push("", `ℹ️ Unused step definitions (${report.unusedSteps.length}):`);
+    report.unusedSteps.forEach((step) => lines.push(`   ${describeDefinition(step)}`));
+  }
+
+  if (!hasDryRunFailures(report)) {
+    lines.push("", "✅ All steps are defined.");
+  }
+
+  return lines.join("\n");
+}
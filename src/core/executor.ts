@@ -0,0 +1,325 @@
+// src/core/executor.ts
+import {
+  APIRequestContext,
+  BrowserContext,
+  Page,
+  TestInfo,
+  TestStepInfo,
+  TestType,
+} from "@playwright/test";
+import { PickleStep } from "@cucumber/messages";
+import * as path from "path";
+import {
+  ContextStepAction,
+  HookDefinition,
+  HookResult,
+  ScenarioInfo,
+  StepAction,
+  StepContext,
+  StepHook,
+  StepInfo,
+  findCallerFrame,
+  getHooks,
+} from "./registry";
+import { findMatchingStep } from "./matcher";
+import { undefinedStepMessage } from "./snippets";
+import { World } from "./world";
+import { isBrowserless } from "./browserless";
+import { DataTable } from "./dataTable";
+import { DocString, getMediaContentType } from "./docString";
+import {
+  FeatureLocation,
+  ParsedFeature,
+  createPickleStep,
+  formatDataTable,
+  formatLocation,
+  getDataTable,
+  getDocString,
+  getMatchText,
+  getStepKeyword,
+  getStepLocation,
+} from "./gherkin";
+
+/**
+ * Everything the steps of one running scenario share.
+ */
+export interface ScenarioRun {
+  /** The test instance reporting the steps (RunnerOptions.test or Playwright's). */
+  bddTest: TestType<any, any>;
+  page: Page;
+  context: BrowserContext;
+  request: APIRequestContext;
+  testInfo: TestInfo;
+  fixtures: Record<string, any>;
+  world: World;
+  scenario: ScenarioInfo;
+}
+
+/**
+ * Runs one step of a parsed feature as a test.step titled with its keyword and text,
+ * between the BeforeStep and AfterStep hooks. A failure is rethrown
+ * with the feature file line of the step.
+ */
+export async function runPickleStep(run: ScenarioRun, parsed: ParsedFeature, step: PickleStep) {
+  await executePickleStep(run, step, getStepKeyword(parsed, step), getStepLocation(parsed, step));
+}
+
+/**
+ * Optional argument passed to a step run with executeStep().
+ */
+export interface ExecuteStepOptions {
+  dataTable?: string[][];
+  /** Doc string text, or a DocString to give it a media type. */
+  docString?: string | DocString;
+}
+
+/**
+ * Runs a step by its text from inside another step, through the same matcher,
+ * hooks and reporting as feature file steps. It shows up as a nested step,
+ * and its failure fails the calling step.
+ * @param context - The StepContext of the calling defineStep() function
+ * @param text - Step text without keyword, e.g. 'I pw click on element "login.submit"'
+ * @example defineStep("I log out", async (ctx) => {
+ *   await executeStep(ctx, 'I pw click on button "Log out"');
+ * });
+ */
+export async function executeStep(
+  context: StepContext,
+  text: string,
+  options?: ExecuteStepOptions
+) {
+  // The calling step function, reported as the location of the nested step
+  const caller = findCallerFrame(__filename);
+  await executePickleStep(
+    toScenarioRun(context),
+    createPickleStep(text, options),
+    "",
+    { file: caller?.file ?? "", line: caller?.line ?? 0, column: 0 }
+  );
+}
+
+/**
+ * Same as runPickleStep(), for steps written outside a parsed feature
+ * (macros, executeStep). `stepLocation` is where the step text is written.
+ */
+export async function executePickleStep(
+  run: ScenarioRun,
+  step: PickleStep,
+  keyword: string,
+  stepLocation: FeatureLocation
+) {
+  const { bddTest, page, scenario } = run;
+  const stepInfo: StepInfo = {
+    keyword,
+    text: step.text,
+    location: formatLocation(stepLocation),
+  };
+
+  enterStep(run.testInfo.testId, step.text);
+  try {
+    await bddTest.step(
+      `${stepInfo.keyword}${step.text}`,
+      async (reportStep) => {
+        for (const hook of getHooks("BeforeStep", scenario.tags)) {
+          await bddTest.step(hookTitle(hook), () =>
+            (hook.fn as StepHook)(page, scenario, stepInfo)
+          );
+        }
+
+        let stepError: Error | undefined;
+        try {
+          await attachStepArgument(reportStep, step);
+          await runStep(
+            {
+              page,
+              context: run.context,
+              request: run.request,
+              testInfo: run.testInfo,
+              test: bddTest,
+              fixtures: run.fixtures,
+              dataTable: toDataTable(step),
+              docString: getDocString(step),
+              scenario,
+              step: stepInfo,
+              world: run.world,
+              log: (message) => console.log(`      📝 ${message}`),
+            },
+            step,
+            stepLocation
+          );
+        } catch (error: any) {
+          stepError = withLocation(error, stepLocation);
+        }
+
+        // Like After hooks, every AfterStep hook runs and the step error comes first
+        const result = toHookResult(stepError);
+        for (const hook of getHooks("AfterStep", scenario.tags)) {
+          try {
+            await bddTest.step(hookTitle(hook), () =>
+              (hook.fn as StepHook)(page, scenario, { ...stepInfo, result })
+            );
+          } catch (error: any) {
+            stepError = stepError ?? error;
+          }
+        }
+
+        if (stepError) throw stepError;
+      },
+      { location: toPlaywrightLocation(stepLocation) }
+    );
+  } finally {
+    activeSteps.texts.pop();
+  }
+}
+
+const MAX_STEP_DEPTH = 16;
+
+// Texts of the steps running inside each other in the current test
+let activeSteps: { testId: string; texts: string[] } = { testId: "", texts: [] };
+
+/**
+ * Records a step as running, and stops steps that (indirectly) run themselves,
+ * e.g. a macro listing its own text, before they recurse forever.
+ */
+function enterStep(testId: string, text: string) {
+  // A test that timed out mid-step never unwinds its entries
+  if (activeSteps.testId !== testId) activeSteps = { testId, texts: [] };
+  const { texts } = activeSteps;
+  const format = (chain: string[]) => chain.map((t) => `"${t}"`).join(" → ");
+  if (texts.includes(text)) {
+    throw new Error(`❌ Recursive step: ${format([...texts.slice(texts.indexOf(text)), text])}`);
+  }
+  if (texts.length >= MAX_STEP_DEPTH) {
+    throw new Error(
+      `❌ Steps nested more than ${MAX_STEP_DEPTH} levels deep: ${format([...texts, text])}`
+    );
+  }
+  texts.push(text);
+}
+
+/**
+ * Rebuilds the ScenarioRun a step is part of from its StepContext,
+ * so a step can run further steps.
+ */
+export function toScenarioRun(context: StepContext): ScenarioRun {
+  return {
+    bddTest: context.test,
+    page: context.page,
+    context: context.context,
+    request: context.request,
+    testInfo: context.testInfo,
+    fixtures: context.fixtures,
+    world: context.world,
+    scenario: context.scenario,
+  };
+}
+
+const screenshotErrors = new WeakSet<Error>();
+
+/**
+ * Matches a single pickle step against the registry and executes it.
+ * Step() functions get the page plus positional arguments,
+ * defineStep() functions get the StepContext plus the matched parameters.
+ * A full-page screenshot is attached to the report when the step fails.
+ */
+async function runStep(context: StepContext, step: PickleStep, location: FeatureLocation) {
+  const { page, testInfo } = context;
+  const stepText = `${context.step.keyword}${context.step.text}`;
+  const matchResult = findMatchingStep(getMatchText(step));
+
+  if (!matchResult) {
+    throw new Error(undefinedStepMessage(step, getMatchText(step)));
+  }
+
+  try {
+    console.log(`   executing: ${stepText}`);
+
+    const params = await matchResult.getArgs(page);
+
+    if (matchResult.definition.usesContext) {
+      await (matchResult.fn as ContextStepAction)(context, ...params);
+    } else {
+      // Data table, then doc string, after the matched parameters. The doc string
+      // stays a plain string for these steps; defineStep() steps get its media type
+      const stepArguments = [context.dataTable, context.docString?.content].filter(
+        (argument) => argument !== undefined
+      );
+      await (matchResult.fn as StepAction)(page, ...params, ...stepArguments);
+    }
+  } catch (error: any) {
+    console.error(`❌ Failed at step: "${stepText}" (${formatLocation(location)})`);
+    // A failing inner step of a macro has already attached its screenshot
+    if (isBrowserless(page) || screenshotErrors.has(error)) throw error;
+    if (error instanceof Error) screenshotErrors.add(error);
+    const screenshot = await page.screenshot({
+      fullPage: true,
+      type: "png",
+    });
+    await testInfo.attach("failure-screenshot", {
+      body: screenshot,
+      contentType: "image/png",
+    });
+    throw error;
+  }
+}
+
+/**
+ * Builds the DataTable handed to the step, resolving aliases stored by earlier steps.
+ */
+function toDataTable(step: PickleStep): DataTable | undefined {
+  const rows = getDataTable(step);
+  return rows ? DataTable.interpolate(rows) : undefined;
+}
+
+/**
+ * Attaches the step's data table or doc string to its report step.
+ */
+async function attachStepArgument(reportStep: TestStepInfo, step: PickleStep) {
+  const dataTable = getDataTable(step);
+  if (dataTable) {
+    await reportStep.attach("data table", {
+      body: formatDataTable(dataTable),
+      contentType: "text/plain",
+    });
+  }
+  const docString = getDocString(step);
+  if (docString !== undefined) {
+    await reportStep.attach("doc string", {
+      body: docString.content,
+      contentType: getMediaContentType(docString.mediaType),
+    });
+  }
+}
+
+/**
+ * Appends the Gherkin source of the failing step to the error,
+ * e.g. "at features/login.feature:23". The stack is updated too,
+ * since reporters print it in place of the message.
+ */
+function withLocation(error: any, location: FeatureLocation): any {
+  if (!(error instanceof Error)) return error;
+  const original = error.message;
+  error.message = `${original}\n    at ${formatLocation(location)}`;
+  if (error.stack?.includes(original)) {
+    error.stack = error.stack.replace(original, error.message);
+  }
+  return error;
+}
+
+/**
+ * test.step locations must be absolute for editors to open them.
+ */
+function toPlaywrightLocation(location: FeatureLocation): FeatureLocation {
+  return { ...location, file: path.resolve(location.file) };
+}
+
+/**
+ * Report title of a hook, e.g. "Before hook (@db and not @readonly)".
+ */
+export function hookTitle(hook: HookDefinition): string {
+  return hook.tags ? `${hook.type} hook (${hook.tags.expression})` : `${hook.type} hook`;
+}
+
+export function toHookResult(error?: Error): HookResult {
+  return error ? { status: "failed", error } : { status: "passed" };
+}
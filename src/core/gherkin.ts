@@ -0,0 +1,318 @@
+// src/core/gherkin.ts
+import * as fs from "fs";
+import {
+  AstBuilder,
+  GherkinClassicTokenMatcher,
+  Parser,
+  compile,
+  dialects,
+} from "@cucumber/gherkin";
+import {
+  Examples,
+  FeatureChild,
+  GherkinDocument,
+  IdGenerator,
+  Pickle,
+  PickleDocString,
+  PickleStep,
+  RuleChild,
+  Scenario,
+  Step as GherkinStep,
+  TableRow,
+} from "@cucumber/messages";
+import { DocString } from "./docString";
+import { addDataExamples } from "./dataExamples";
+
+/**
+ * A feature file parsed into its Gherkin AST and compiled Pickles.
+ */
+export interface ParsedFeature {
+  uri: string;
+  document: GherkinDocument;
+  pickles: readonly Pickle[];
+  /** AST steps (Background + Scenario) indexed by their node id. */
+  steps: Map<string, GherkinStep>;
+  /** Pickles grouped by the id of the Scenario they were compiled from. */
+  picklesByScenario: Map<string, Pickle[]>;
+}
+
+type PickleDocStringWithDelimiter = PickleDocString & { delimiter?: string };
+
+/**
+ * A position in a feature file; same shape as Playwright's Location.
+ */
+export interface FeatureLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Parses Gherkin source text into a ParsedFeature.
+ * A "# language: pt" header selects the keyword dialect (Funcionalidade, Cenário, Dado, ...);
+ * step text is matched against the registry unchanged.
+ * Parse errors are rethrown with the file and line they occurred at.
+ * @param source - The raw feature file content
+ * @param uri - The path of the feature file (used in error messages)
+ * @param language - Dialect for files without a language header (default "en")
+ * @param lineOffset - Added to reported lines when the Gherkin is embedded in another file
+ */
+export function parseFeature(
+  source: string,
+  uri: string,
+  language = "en",
+  lineOffset = 0
+): ParsedFeature {
+  if (!dialects[language]) {
+    throw new Error(
+      `❌ Unknown Gherkin language "${language}". See https://cucumber.io/docs/gherkin/languages/`
+    );
+  }
+
+  const newId = IdGenerator.incrementing();
+  const parser = new Parser(
+    new AstBuilder(newId),
+    new GherkinClassicTokenMatcher(language)
+  );
+  parser.stopAtFirstError = false;
+
+  let document: GherkinDocument;
+  try {
+    document = { ...parser.parse(source), uri };
+  } catch (error: any) {
+    const errors: any[] = error.errors || [error];
+    const details = errors
+      .map((e) => {
+        const line = e.location ? `:${e.location.line + lineOffset}` : "";
+        const message = String(e.message).replace(/^\(\d+:\d+\):\s*/, "");
+        return `   ${uri}${line} ${message}`;
+      })
+      .join("\n");
+    throw new Error(`❌ Failed to parse feature file:\n${details}`);
+  }
+
+  // @data:<file> tags on Scenario Outlines supply extra Examples rows
+  addDataExamples(collectScenarios(document.feature?.children ?? []), uri, newId);
+  const pickles = compile(document, uri, newId);
+
+  const steps = new Map<string, GherkinStep>();
+  for (const child of document.feature?.children ?? []) {
+    collectSteps(child, steps);
+  }
+  if (lineOffset !== 0) {
+    steps.forEach((step) => (step.location.line += lineOffset));
+  }
+  // Pickles drop the doc string delimiter; keep it for getDocString()
+  for (const pickleStep of pickles.flatMap((pickle) => pickle.steps)) {
+    const docString = pickleStep.argument?.docString as PickleDocStringWithDelimiter | undefined;
+    const delimiter = steps.get(pickleStep.astNodeIds[0])?.docString?.delimiter;
+    if (docString && delimiter) docString.delimiter = delimiter;
+  }
+
+  const picklesByScenario = new Map<string, Pickle[]>();
+  for (const pickle of pickles) {
+    const scenarioId = pickle.astNodeIds[0];
+    const group = picklesByScenario.get(scenarioId) ?? [];
+    group.push(pickle);
+    picklesByScenario.set(scenarioId, group);
+  }
+
+  return { uri, document, pickles, steps, picklesByScenario };
+}
+
+/**
+ * Parses bare steps (no Feature / Scenario lines), e.g. for runSteps().
+ * They are wrapped in a one-scenario feature using the dialect's keywords.
+ * @param text - Steps with optional data tables and doc strings
+ * @param uri - The file the steps are written in
+ * @param options - Dialect, and the line of `uri` the text starts at (default 1)
+ */
+export function parseSteps(
+  text: string,
+  uri: string,
+  options: { language?: string; line?: number } = {}
+): ParsedFeature {
+  const language = options.language ?? "en";
+  const dialect = dialects[language];
+  const header = [
+    `${dialect?.feature[0] ?? "Feature"}: Inline steps`,
+    `${dialect?.scenario[0] ?? "Scenario"}: Inline steps`,
+  ];
+  // The header takes two lines ahead of the text
+  const lineOffset = (options.line ?? 1) - 1 - header.length;
+  return parseFeature([...header, text].join("\n"), uri, language, lineOffset);
+}
+
+/**
+ * Reads and parses a feature file from disk.
+ * @param file - Path to the .feature file
+ * @param language - Dialect for files without a language header
+ */
+export function parseFeatureFile(file: string, language?: string): ParsedFeature {
+  const source = fs.readFileSync(file, "utf8");
+  return parseFeature(source, file, language);
+}
+
+/**
+ * Returns every Scenario of a feature in document order,
+ * including the ones nested inside Rules.
+ */
+export function collectScenarios(children: readonly FeatureChild[]): Scenario[] {
+  const scenarios: Scenario[] = [];
+  for (const child of children) {
+    if (child.scenario) scenarios.push(child.scenario);
+    if (child.rule) {
+      for (const ruleChild of child.rule.children) {
+        if (ruleChild.scenario) scenarios.push(ruleChild.scenario);
+      }
+    }
+  }
+  return scenarios;
+}
+
+/**
+ * Returns the Examples block and row a Scenario Outline pickle was
+ * expanded from, or undefined for plain Scenarios.
+ */
+export function getExamplesRow(
+  scenario: Scenario,
+  pickle: Pickle
+): { examples: Examples; row: TableRow } | undefined {
+  const rowId = pickle.astNodeIds[1];
+  if (!rowId) return undefined;
+  for (const examples of scenario.examples) {
+    const row = examples.tableBody.find((r) => r.id === rowId);
+    if (row) return { examples, row };
+  }
+  return undefined;
+}
+
+/**
+ * Builds a readable label for an Examples row, e.g. "Admins: user=admin, role=owner".
+ */
+export function formatExamplesRow(examples: Examples, row: TableRow): string {
+  const headers = examples.tableHeader?.cells ?? [];
+  const values = row.cells
+    .map((cell, index) => `${headers[index]?.value ?? index + 1}=${cell.value}`)
+    .join(", ");
+  const name = examples.name.trim();
+  return name ? `${name}: ${values}` : values;
+}
+
+/**
+ * Returns the Gherkin keyword a pickle step was written with (e.g. "Given ").
+ */
+export function getStepKeyword(feature: ParsedFeature, step: PickleStep): string {
+  return feature.steps.get(step.astNodeIds[0])?.keyword ?? "";
+}
+
+/**
+ * Returns where a pickle step was written in the feature file.
+ * Steps of a Scenario Outline point at the outline step, not the Examples row.
+ */
+export function getStepLocation(feature: ParsedFeature, step: PickleStep): FeatureLocation {
+  const location = feature.steps.get(step.astNodeIds[0])?.location;
+  return { file: feature.uri, line: location?.line ?? 0, column: location?.column ?? 0 };
+}
+
+/**
+ * Returns where a scenario pickle was written: the Examples row for
+ * Scenario Outlines, the Scenario line otherwise.
+ */
+export function getScenarioLocation(
+  feature: ParsedFeature,
+  scenario: Scenario,
+  pickle: Pickle
+): FeatureLocation {
+  const location = getExamplesRow(scenario, pickle)?.row.location ?? scenario.location;
+  return { file: feature.uri, line: location.line, column: location.column ?? 0 };
+}
+
+/**
+ * Formats a location the way editors and CI annotations link it: "features/login.feature:23".
+ */
+export function formatLocation(location: FeatureLocation): string {
+  return location.line ? `${location.file}:${location.line}` : location.file;
+}
+
+/**
+ * Returns the step text as it should be matched against the registry.
+ * A trailing colon (e.g. "to contain:") is kept; the matcher falls back
+ * to the text without it when no pattern includes the colon.
+ */
+export function getMatchText(step: PickleStep): string {
+  return step.text.trim();
+}
+
+/**
+ * Returns the rows of a step's data table, or undefined when it has none.
+ */
+export function getDataTable(step: PickleStep): string[][] | undefined {
+  const dataTable = step.argument?.dataTable;
+  if (!dataTable || dataTable.rows.length === 0) return undefined;
+  return dataTable.rows.map((row) => row.cells.map((cell) => cell.value));
+}
+
+/**
+ * Returns a step's doc string with its media type and delimiter, or undefined when it has none.
+ */
+export function getDocString(step: PickleStep): DocString | undefined {
+  const docString = step.argument?.docString as PickleDocStringWithDelimiter | undefined;
+  if (!docString) return undefined;
+  return {
+    content: docString.content,
+    mediaType: docString.mediaType || undefined,
+    delimiter: docString.delimiter,
+  };
+}
+
+/**
+ * Builds a pickle step for step text that does not come from a feature file,
+ * e.g. the inner steps of a macro.
+ */
+export function createPickleStep(
+  text: string,
+  argument: { dataTable?: string[][]; docString?: string | DocString } = {}
+): PickleStep {
+  const { dataTable } = argument;
+  const docString =
+    typeof argument.docString === "string" ? { content: argument.docString } : argument.docString;
+  return {
+    id: "",
+    text,
+    astNodeIds: [],
+    argument: dataTable
+      ? { dataTable: { rows: dataTable.map((row) => ({ cells: row.map((value) => ({ value })) })) } }
+      : docString !== undefined
+        ? { docString }
+        : undefined,
+  };
+}
+
+/**
+ * Renders data table rows back into aligned Gherkin "| a | b |" lines.
+ */
+export function formatDataTable(rows: string[][]): string {
+  const widths: number[] = [];
+  rows.forEach((row) =>
+    row.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index] ?? 0, cell.length);
+    })
+  );
+  return rows
+    .map((row) => `| ${row.map((cell, index) => cell.padEnd(widths[index])).join(" | ")} |`)
+    .join("\n");
+}
+
+function collectSteps(
+  child: FeatureChild | RuleChild,
+  steps: Map<string, GherkinStep>
+) {
+  for (const step of child.background?.steps ?? []) steps.set(step.id, step);
+  for (const step of child.scenario?.steps ?? []) steps.set(step.id, step);
+  if ("rule" in child) {
+    for (const ruleChild of child.rule?.children ?? []) {
+      collectSteps(ruleChild, steps);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// src/core/inline.ts
+import { Page, test } from "@playwright/test";
+import { findCallerFrame } from "./registry";
+import { getTestWorld } from "./world";
+import { ScenarioRun, runPickleStep } from "./executor";
+import { formatLocation, getStepLocation, parseSteps } from "./gherkin";
+
+export interface RunStepsOptions {
+  /** Gherkin dialect of the step keywords, e.g. "pt". Defaults to "en". */
+  language?: string;
+}
+
+/**
+ * Runs Gherkin steps from an ordinary Playwright test, e.g.
+ * `await runSteps(page, 'Given I pw visit "/login"')`.
+ * Steps may carry data tables and doc strings, and are reported like
+ * runTests() steps. Calls within one test share the same World.
+ * @param page - The page the steps act on
+ * @param gherkin - One or more steps, without Feature / Scenario lines
+ */
+export async function runSteps(page: Page, gherkin: string, options?: RunStepsOptions) {
+  // Read before the first await, while the spec is still on the stack
+  const caller = findCallerFrame(__filename);
+  const testInfo = test.info();
+  const uri = caller?.file ?? testInfo.file;
+  const parsed = parseSteps(gherkin, uri, {
+    language: options?.language,
+    line: caller?.line,
+  });
+
+  const firstStep = parsed.pickles[0]?.steps[0];
+  const run: ScenarioRun = {
+    bddTest: test,
+    page,
+    context: page.context(),
+    request: page.request,
+    testInfo,
+    fixtures: { page },
+    world: getTestWorld(testInfo.testId),
+    scenario: {
+      name: testInfo.title,
+      tags: testInfo.tags,
+      uri,
+      location: firstStep ? formatLocation(getStepLocation(parsed, firstStep)) : uri,
+    },
+  };
+
+  for (const pickle of parsed.pickles) {
+    for (const step of pickle.steps) {
+      await runPickleStep(run, parsed, step);
+    }
+  }
+}
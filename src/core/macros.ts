@@ -0,0 +1,189 @@
+// src/core/macros.ts
+import { PickleStep } from "@cucumber/messages";
+import {
+  ContextStepAction,
+  StepDefinition,
+  StepOptions,
+  findCallerFrame,
+  registerStep,
+} from "./registry";
+import { executePickleStep, toScenarioRun } from "./executor";
+import { DocString } from "./docString";
+import {
+  FeatureLocation,
+  collectScenarios,
+  createPickleStep,
+  formatLocation,
+  getDataTable,
+  getDocString,
+  parseFeatureFile,
+} from "./gherkin";
+
+/**
+ * One step inside a macro. Its text, data table and doc string may contain
+ * {0}, {1}, ... placeholders for the parameters matched by the macro pattern.
+ */
+interface MacroStep {
+  keyword: string;
+  text: string;
+  dataTable?: string[][];
+  docString?: DocString;
+  location: FeatureLocation;
+}
+
+/**
+ * A macro step expanded into one of its inner steps, ready to run or check.
+ */
+export interface ExpandedStep {
+  step: PickleStep;
+  keyword: string;
+  location: FeatureLocation;
+}
+
+const loadedMacroFiles = new Set<string>();
+
+// Inner steps of every macro by its step function, for the dry run
+const macroSteps = new WeakMap<StepDefinition["fn"], MacroStep[]>();
+
+/**
+ * Defines a step in terms of other steps. {0}, {1}, ... in the inner steps are
+ * replaced with the parameters matched from the macro step. An inner step ending
+ * with ":" receives the data table or doc string written under the macro step.
+ * @example StepMacro("I am logged in as {string}", [
+ *   'I pw visit "/login"',
+ *   'I pw fill "#username" with "{0}"',
+ *   'I pw click on button "Sign in"',
+ * ]);
+ */
+export function StepMacro(
+  pattern: string | RegExp,
+  steps: string[],
+  typeOrOptions?: string | StepOptions
+) {
+  const caller = findCallerFrame(__filename);
+  const location = { file: caller?.file ?? "", line: caller?.line ?? 0, column: 0 };
+  registerMacro(
+    pattern,
+    steps.map((text) => ({ keyword: "", text, location })),
+    typeOrOptions,
+    formatLocation(location)
+  );
+}
+
+/**
+ * Registers every Scenario of a `.steps.feature` file as a macro: the scenario
+ * name is the step pattern and its steps are the inner steps.
+ * Files already loaded are skipped, so several runTests() calls can share them.
+ * @example
+ * Feature: Login macros
+ *   Scenario: I am logged in as {string}
+ *     Given I pw visit "/login"
+ *     When I pw fill "#username" with "{0}"
+ */
+export function loadMacroFile(file: string, language?: string) {
+  if (loadedMacroFiles.has(file)) return;
+  loadedMacroFiles.add(file);
+
+  const parsed = parseFeatureFile(file, language);
+  const children = parsed.document.feature?.children ?? [];
+  const background = [
+    ...children,
+    ...children.flatMap((child) => child.rule?.children ?? []),
+  ].find((child) => child.background)?.background;
+  if (background) {
+    throw new Error(
+      `❌ Background is not supported in macro files (${file}:${background.location.line}). ` +
+        `Write its steps into each macro instead.`
+    );
+  }
+
+  for (const scenario of collectScenarios(children)) {
+    const pattern = scenario.name.trim();
+    if (!pattern) {
+      throw new Error(`❌ Macro without a name in ${file}:${scenario.location.line}`);
+    }
+    const steps = scenario.steps.map((step) => ({
+      keyword: step.keyword,
+      text: step.text,
+      dataTable: step.dataTable?.rows.map((row) => row.cells.map((cell) => cell.value)),
+      docString: step.docString && {
+        content: step.docString.content,
+        mediaType: step.docString.mediaType || undefined,
+        delimiter: step.docString.delimiter,
+      },
+      location: { file, line: step.location.line, column: step.location.column ?? 0 },
+    }));
+    registerMacro(pattern, steps, undefined, `${file}:${scenario.location.line}`);
+  }
+}
+
+function registerMacro(
+  pattern: string | RegExp,
+  steps: MacroStep[],
+  typeOrOptions: string | StepOptions | undefined,
+  source: string
+) {
+  const fn: ContextStepAction = async (context, ...params) => {
+    const run = toScenarioRun(context);
+    // Each inner step is a nested test.step, so the report shows which one failed
+    for (const inner of expandSteps(steps, params, context.dataTable, context.docString)) {
+      await executePickleStep(run, inner.step, inner.keyword, inner.location);
+    }
+  };
+  macroSteps.set(fn, steps);
+  registerStep(pattern, fn, true, typeOrOptions, source);
+}
+
+/**
+ * Returns the inner steps a macro step runs, or undefined when the definition
+ * is not a macro. Lets the dry run check inner steps without running them.
+ * @param params - The parameters matched from the macro step
+ * @param step - The macro step, whose data table or doc string is passed on
+ */
+export function expandMacro(
+  definition: StepDefinition,
+  params: any[],
+  step: PickleStep
+): ExpandedStep[] | undefined {
+  const steps = macroSteps.get(definition.fn);
+  return steps && expandSteps(steps, params, getDataTable(step), getDocString(step));
+}
+
+/**
+ * Fills in {0}, {1}, ... and hands the macro step's data table or doc string
+ * to the inner steps ending with ":".
+ */
+function expandSteps(
+  steps: MacroStep[],
+  params: any[],
+  dataTable: string[][] | undefined,
+  docString: DocString | undefined
+): ExpandedStep[] {
+  const fill = (value: string) => substituteParams(value, params);
+  return steps.map((step) => {
+    const text = fill(step.text);
+    const passThrough = text.endsWith(":");
+    const innerTable =
+      step.dataTable?.map((row) => row.map(fill)) ?? (passThrough ? dataTable : undefined);
+    const innerDocString =
+      step.docString !== undefined
+        ? { ...step.docString, content: fill(step.docString.content) }
+        : passThrough
+          ? docString
+          : undefined;
+    return {
+      step: createPickleStep(text, { dataTable: innerTable, docString: innerDocString }),
+      keyword: step.keyword,
+      location: step.location,
+    };
+  });
+}
+
+/**
+ * Replaces {0}, {1}, ... with the matched parameters; unknown indexes are left as written.
+ */
+function substituteParams(value: string, params: any[]): string {
+  return value.replace(/\{(\d+)\}/g, (placeholder, index) =>
+    Number(index) < params.length ? String(params[Number(index)]) : placeholder
+  );
+}
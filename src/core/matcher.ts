@@ -0,0 +1,123 @@
+// src/core/matcher.ts
+import { Page } from "@playwright/test";
+import { StepDefinition, stepRegistry } from "./registry";
+
+export interface StepMatch {
+  definition: StepDefinition;
+  fn: StepDefinition["fn"];
+  /** Number of parameters captured from the step text. */
+  argCount: number;
+  /**
+   * Resolves the matched parameters. Parameter type transformers
+   * may be async and receive the page, so this is only called at run time.
+   */
+  getArgs(page: Page): Promise<any[]>;
+  /**
+   * The text each parameter matched, without the quotes of {string}. The dry run
+   * uses it, since it cannot run parameter transformers.
+   */
+  rawArgs: string[];
+}
+
+/**
+ * Text matched by a Cucumber expression argument: its only capture group
+ * (e.g. the content of a quoted string) or else the whole match.
+ */
+function rawValue(arg: any): string {
+  const captured = (arg.group.children ?? []).filter((child: any) => child.value !== undefined);
+  return captured.length === 1 ? captured[0].value : (arg.group.value ?? "");
+}
+
+/**
+ * Tries a single step definition against the step text.
+ * Supports: RegExp (with capture groups) and CucumberExpressions.
+ */
+function matchDefinition(step: StepDefinition, text: string): StepMatch | null {
+  // 1. Cucumber Expression Match (NEW - Proper way)
+  if (step.expression && typeof (step.expression as any).match === "function") {
+    try {
+      const match = (step.expression as any).match(text);
+      if (match) {
+        return {
+          definition: step,
+          fn: step.fn,
+          argCount: match.length,
+          getArgs: (page) => Promise.all(match.map((arg: any) => arg.getValue(page))),
+          rawArgs: match.map(rawValue),
+        };
+      }
+    } catch (_e) {
+      // Treat a failing Cucumber Expression as "no match"
+    }
+    return null;
+  }
+
+  // 2. RegExp Match
+  if (step.expression instanceof RegExp) {
+    const match = step.expression.exec(text);
+    if (match) {
+      // match[0] is full string, slice(1) are capture groups
+      return {
+        definition: step,
+        fn: step.fn,
+        argCount: match.length - 1,
+        getArgs: async () => match.slice(1),
+        rawArgs: match.slice(1).map((value) => value ?? ""),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Formats a step definition for error messages: pattern and source file.
+ */
+export function describeDefinition(step: StepDefinition): string {
+  const pattern =
+    step.pattern instanceof RegExp ? step.pattern.toString() : step.pattern;
+  return step.source ? `${pattern}  (${step.source})` : pattern;
+}
+
+/**
+ * Returns every definition matching the step text, highest priority first.
+ */
+export function findAllMatchingSteps(text: string): StepMatch[] {
+  const matches: StepMatch[] = [];
+  for (const step of stepRegistry) {
+    const match = matchDefinition(step, text);
+    if (match) matches.push(match);
+  }
+  return matches.sort((a, b) => b.definition.priority - a.definition.priority);
+}
+
+/**
+ * Finds the matching step definition from the registry.
+ * A trailing colon is ignored when no pattern includes it.
+ * When several definitions match, the one with the highest priority wins;
+ * a tie is reported as an ambiguous step listing every candidate.
+ * @returns The match, or null when the step is undefined.
+ */
+export function findMatchingStep(text: string): StepMatch | null {
+  let matches = findAllMatchingSteps(text);
+  // "...to contain:" introduces a table; most patterns are written without the colon
+  if (matches.length === 0 && text.endsWith(":")) {
+    matches = findAllMatchingSteps(text.slice(0, -1).trim());
+  }
+  if (matches.length === 0) return null;
+
+  const topPriority = matches[0].definition.priority;
+  const candidates = matches.filter((m) => m.definition.priority === topPriority);
+
+  if (candidates.length > 1) {
+    const list = candidates
+      .map((m) => `   - ${describeDefinition(m.definition)}`)
+      .join("\n");
+    throw new Error(
+      `❌ Ambiguous Step: "${text}" matches ${candidates.length} definitions:\n${list}\n` +
+        `   Give the intended definition a higher priority, e.g. Step(pattern, fn, { priority: 1 }).`
+    );
+  }
+
+  return matches[0];
+}
@@ -0,0 +1,107 @@
+// src/core/parameterTypes.ts
+import {
+  ParameterType,
+  ParameterTypeRegistry,
+} from "@cucumber/cucumber-expressions";
+import { loadFixture, getFixtureValue } from "../backend/utils/fixtures";
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  millisecond: 1,
+  milliseconds: 1,
+  s: 1000,
+  sec: 1000,
+  secs: 1000,
+  second: 1000,
+  seconds: 1000,
+  m: 60_000,
+  min: 60_000,
+  mins: 60_000,
+  minute: 60_000,
+  minutes: 60_000,
+};
+
+/**
+ * Converts "500ms", "2 seconds" or "1.5 min" into milliseconds.
+ */
+export function parseDuration(amount: string, unit: string): number {
+  const factor = DURATION_UNITS[unit.toLowerCase()];
+  if (factor === undefined) {
+    throw new Error(`❌ Unknown duration unit "${unit}".`);
+  }
+  return Math.round(parseFloat(amount) * factor);
+}
+
+/**
+ * Reads a 1-based index given as a number (from {ordinal}) or as a string such as
+ * "2nd" or "2", which is what the helpers received before {ordinal} existed.
+ */
+export function toIndex(index: number | string): number {
+  return typeof index === "number" ? index : parseInt(index, 10);
+}
+
+/**
+ * Resolves a selector key through selectors.json. Keys that are not in the
+ * fixture are used as raw CSS/XPath selectors.
+ */
+export function resolveSelector(key: string): string {
+  return getFixtureValue(loadFixture("selectors.json"), key);
+}
+
+/**
+ * Registers the library's built-in parameter types:
+ * - {ordinal}  "1st", "2nd", "23rd", "4th"      → 1-based number
+ * - {duration} "500ms", "2 seconds", "1 minute"  → milliseconds
+ * - {boolean}  "true" / "false", "yes" / "no"     → boolean
+ * - {selector} "login.submit" or "#submit"       → selector resolved through selectors.json
+ * {duration} and {boolean} are not used for snippets: they would turn ordinary
+ * words such as "no" or "3m" in undefined steps into parameters.
+ */
+export function registerBuiltinParameterTypes(registry: ParameterTypeRegistry) {
+  registry.defineParameterType(
+    new ParameterType<number>(
+      "ordinal",
+      /(\d+)(?:st|nd|rd|th)/,
+      Number,
+      (index: string) => parseInt(index, 10),
+      true,
+      false
+    )
+  );
+
+  registry.defineParameterType(
+    new ParameterType<number>(
+      "duration",
+      /(\d+(?:\.\d+)?) ?(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)\b/,
+      Number,
+      parseDuration,
+      false,
+      false
+    )
+  );
+
+  registry.defineParameterType(
+    new ParameterType<boolean>(
+      "boolean",
+      /true|false|yes|no/,
+      Boolean,
+      (value: string) => value === "true" || value === "yes",
+      false,
+      false
+    )
+  );
+
+  registry.defineParameterType(
+    new ParameterType<string>(
+      "selector",
+      [/"([^"\\]*(?:\\.[^"\\]*)*)"/, /'([^'\\]*(?:\\.[^'\\]*)*)'/],
+      String,
+      (doubleQuoted?: string, singleQuoted?: string) => {
+        const key = (doubleQuoted ?? singleQuoted ?? "").replace(/\\(["'])/g, "$1");
+        return resolveSelector(key);
+      },
+      false,
+      false
+    )
+  );
+}
@@ -1,37 +1,185 @@
 // src/core/registry.ts
 import {
   CucumberExpression,
+  ParameterType,
   ParameterTypeRegistry,
 } from "@cucumber/cucumber-expressions";
-import { Page } from "@playwright/test";
+import * as path from "path";
+import {
+  APIRequestContext,
+  Browser,
+  BrowserContext,
+  Page,
+  TestInfo,
+  TestType,
+} from "@playwright/test";
+import { TagFilter, parseTagFilter } from "./tags";
+import { registerBuiltinParameterTypes } from "./parameterTypes";
+import { World } from "./world";
+import { DataTable } from "./dataTable";
+import { DocString } from "./docString";
 
 /**
  * Define the type of function for our steps.
- * Every step automatically gets 'page' as the first argument.
+ * Every step automatically gets 'page' as the first argument. A data table and
+ * the doc string content (a plain string, without its media type) come last.
  */
 export type StepAction = (page: Page, ...args: any[]) => Promise<void>;
 
+/**
+ * Everything a step registered with defineStep() can reach.
+ */
+export interface StepContext {
+  page: Page;
+  context: BrowserContext;
+  request: APIRequestContext;
+  testInfo: TestInfo;
+  /** The test running the scenario: RunnerOptions.test, or Playwright's test. */
+  test: TestType<any, any>;
+  /**
+   * Fixtures set up for the scenario: page, request and the names listed in
+   * RunnerOptions.fixtures (from a custom test passed as RunnerOptions.test).
+   */
+  fixtures: Record<string, any>;
+  /** The step's data table, if it has one, with aliases and env variables resolved. */
+  dataTable?: DataTable;
+  /** The step's doc string with its media type ("""json) and delimiter, if it has one. */
+  docString?: DocString;
+  scenario: ScenarioInfo;
+  step: StepInfo;
+  /** State shared by the steps of the running scenario. */
+  world: World;
+  /** Logs a message under the running step. */
+  log: (message: string) => void;
+}
+
+/**
+ * Step function registered with defineStep(): receives the StepContext
+ * followed by the parameters matched from the step text.
+ */
+export type ContextStepAction = (context: StepContext, ...args: any[]) => Promise<void>;
+
 /**
  * 1. StepDefinition Interface
  * Updated to allow both CucumberExpression (legacy) AND RegExp (standard)
  */
 export interface StepDefinition {
   expression: CucumberExpression | RegExp;
-  fn: StepAction;
+  fn: StepAction | ContextStepAction;
   pattern: string | RegExp;
+  /** True for defineStep() definitions, which receive a StepContext instead of the page. */
+  usesContext: boolean;
+  type?: string;
+  /** Higher priority definitions win when several match the same step. */
+  priority: number;
+  /** File and line the step was registered from (e.g. "steps/login.ts:12"). */
+  source?: string;
+}
+
+/**
+ * Optional settings accepted as the third argument of Step().
+ */
+export interface StepOptions {
   type?: string;
+  /**
+   * Resolves overlaps between definitions (default 0).
+   * Give a custom step a higher priority to deliberately override a library step.
+   */
+  priority?: number;
 }
 
 // 2. The Global Registry
 export const stepRegistry: StepDefinition[] = [];
 
-const parameterTypeRegistry = new ParameterTypeRegistry();
+export const parameterTypeRegistry = new ParameterTypeRegistry();
+registerBuiltinParameterTypes(parameterTypeRegistry);
+
+/**
+ * Describes a custom {parameter} type for Cucumber expressions.
+ */
+export interface ParameterTypeDefinition<T> {
+  /** Name used inside expressions, e.g. "color" for {color}. */
+  name: string;
+  /** Pattern(s) the parameter matches in the step text. */
+  regexp: RegExp | string | readonly (RegExp | string)[];
+  /**
+   * Converts the matched text into a value (sync or async).
+   * Receives the page followed by the capture groups (or the whole match when there are none).
+   * Defaults to returning the matched text.
+   */
+  transformer?: (page: Page, ...groups: string[]) => T | Promise<T>;
+  /** Whether undefined-step snippets may use this type (default true). */
+  useForSnippets?: boolean;
+  /** Prefer this type when a plain RegExp step matches its pattern (default false). */
+  preferForRegexpMatch?: boolean;
+}
+
+/**
+ * Registers a custom parameter type usable by every string pattern registered afterwards.
+ * @example defineParameterType({
+ *   name: "user",
+ *   regexp: /admin|guest/,
+ *   transformer: (_page, role) => loadFixture("users.json")[role],
+ * });
+ */
+export function defineParameterType<T>(definition: ParameterTypeDefinition<T>) {
+  const transformer = definition.transformer ?? ((_page: Page, ...groups: string[]) => groups[0] as T);
+
+  parameterTypeRegistry.defineParameterType(
+    new ParameterType<T>(
+      definition.name,
+      definition.regexp,
+      null,
+      function (this: unknown, ...groups: string[]) {
+        // `this` is the page the step runs against (see Argument.getValue in matcher.ts)
+        return transformer(this as Page, ...groups);
+      },
+      definition.useForSnippets ?? true,
+      definition.preferForRegexpMatch ?? false
+    )
+  );
+}
 
 /**
  * 3. The Function to Register Steps
  * Supports passing a string (converted to CucumberExpression) OR a direct RegExp.
+ * The third argument is either the step type ("When") or a StepOptions object.
  */
-export function Step(pattern: string | RegExp, fn: StepAction, type?: string) {
+export function Step(
+  pattern: string | RegExp,
+  fn: StepAction,
+  typeOrOptions?: string | StepOptions
+) {
+  registerStep(pattern, fn, false, typeOrOptions);
+}
+
+/**
+ * Registers a step whose function receives a typed StepContext
+ * (page, request, testInfo, dataTable, docString, scenario, world, ...)
+ * followed by the matched parameters. Data tables and doc strings are
+ * only available on the context, not appended as arguments.
+ * @example defineStep("I attach the page as {string}", async ({ page, testInfo }, name) => {
+ *   await testInfo.attach(name, { body: await page.screenshot(), contentType: "image/png" });
+ * });
+ */
+export function defineStep(
+  pattern: string | RegExp,
+  fn: ContextStepAction,
+  typeOrOptions?: string | StepOptions
+) {
+  registerStep(pattern, fn, true, typeOrOptions);
+}
+
+/**
+ * Adds a definition to the registry. `source` defaults to the code that called Step() / defineStep().
+ */
+export function registerStep(
+  pattern: string | RegExp,
+  fn: StepAction | ContextStepAction,
+  usesContext: boolean,
+  typeOrOptions?: string | StepOptions,
+  source = getCallerLocation()
+) {
 
   let expression: CucumberExpression | RegExp;
 
@@ -43,10 +191,179 @@ export function Step(pattern: string | RegExp, fn: StepAction, type?: string) {
     expression = new CucumberExpression(pattern, parameterTypeRegistry);
   }
 
+  const options =
+    typeof typeOrOptions === "string" ? { type: typeOrOptions } : typeOrOptions ?? {};
+
   stepRegistry.push({
     expression,
     fn,
     pattern,
+    usesContext,
+    type: options.type,
+    priority: options.priority ?? 0,
+    source,
+  });
+}
+
+/**
+ * Returns "file:line" of the code that called Step() / defineStep(), relative to the cwd.
+ */
+function getCallerLocation(): string | undefined {
+  const caller = findCallerFrame();
+  return caller ? `${caller.file}:${caller.line}` : undefined;
+}
+
+/**
+ * Finds the first stack frame outside this file and the given library files.
+ * @param skipFiles - Further files whose frames belong to the library
+ * @returns The file (relative to the cwd) and line of the calling code
+ */
+export function findCallerFrame(...skipFiles: string[]): { file: string; line: number } | undefined {
+  const framePattern = /\(?([^\s()]+):(\d+):\d+\)?$/;
+  const frames = (new Error().stack ?? "").split("\n").slice(1);
+  const caller = frames.find(
+    (frame) =>
+      ![__filename, ...skipFiles].some((file) => frame.includes(file)) &&
+      framePattern.test(frame)
+  );
+  const match = caller?.match(framePattern);
+  if (!match) return undefined;
+  return { file: path.relative(process.cwd(), match[1]), line: parseInt(match[2], 10) };
+}
+
+// ==================================================
+// HOOKS
+// ==================================================
+
+export type HookType =
+  | "Before"
+  | "After"
+  | "BeforeAll"
+  | "AfterAll"
+  | "BeforeStep"
+  | "AfterStep";
+
+/**
+ * Outcome of a scenario or step, passed to After / AfterStep hooks.
+ */
+export interface HookResult {
+  status: "passed" | "failed";
+  error?: Error;
+}
+
+/**
+ * Metadata about the feature a BeforeAll / AfterAll hook runs for.
+ */
+export interface FeatureInfo {
+  name: string;
+  tags: string[];
+  uri: string;
+  /** Gherkin dialect the feature is written in, e.g. "en" or "pt". */
+  language: string;
+}
+
+/**
+ * Metadata about the running scenario.
+ * `result` is only set for After hooks.
+ */
+export interface ScenarioInfo {
+  name: string;
+  tags: string[];
+  uri: string;
+  /** Where the scenario is written, e.g. "features/login.feature:23". */
+  location: string;
+  result?: HookResult;
+}
+
+/**
+ * Metadata about the running step.
+ * `result` is only set for AfterStep hooks.
+ */
+export interface StepInfo {
+  keyword: string;
+  text: string;
+  /** Where the step is written, e.g. "features/login.feature:25". */
+  location: string;
+  result?: HookResult;
+}
+
+export type FeatureHook = (browser: Browser, feature: FeatureInfo) => Promise<void> | void;
+export type ScenarioHook = (page: Page, scenario: ScenarioInfo) => Promise<void> | void;
+export type StepHook = (page: Page, scenario: ScenarioInfo, step: StepInfo) => Promise<void> | void;
+
+export interface HookDefinition {
+  type: HookType;
+  fn: FeatureHook | ScenarioHook | StepHook;
+  tags?: TagFilter;
+}
+
+export const hookRegistry: HookDefinition[] = [];
+
+function addHook(type: HookType, tagsOrFn: string | HookDefinition["fn"], fn?: HookDefinition["fn"]) {
+  const hookFn = typeof tagsOrFn === "function" ? tagsOrFn : fn;
+  if (!hookFn) {
+    throw new Error(`❌ ${type} hook registered without a function.`);
+  }
+  hookRegistry.push({
     type,
+    fn: hookFn,
+    tags: typeof tagsOrFn === "string" ? parseTagFilter(tagsOrFn) : undefined,
   });
 }
+
+/**
+ * Returns the hooks of a given type whose tag expression matches the given tags.
+ * "After" style hooks are returned in reverse registration order.
+ */
+export function getHooks(type: HookType, tags: readonly string[]): HookDefinition[] {
+  const hooks = hookRegistry.filter(
+    (hook) => hook.type === type && (!hook.tags || hook.tags.evaluate(tags))
+  );
+  return type.startsWith("After") ? hooks.reverse() : hooks;
+}
+
+/**
+ * Runs before each scenario, optionally only for scenarios matching a tag expression.
+ * @example Before("@db and not @readonly", async (page, scenario) => { ... })
+ */
+export function Before(tagsOrFn: string | ScenarioHook, fn?: ScenarioHook) {
+  addHook("Before", tagsOrFn, fn);
+}
+
+/**
+ * Runs after each scenario (even when it failed). `scenario.result` holds the outcome.
+ * @example After(async (page, scenario) => { if (scenario.result?.status === "failed") ... })
+ */
+export function After(tagsOrFn: string | ScenarioHook, fn?: ScenarioHook) {
+  addHook("After", tagsOrFn, fn);
+}
+
+/**
+ * Runs once per feature (per worker) before its first scenario.
+ * The tag expression is matched against the feature tags.
+ */
+export function BeforeAll(tagsOrFn: string | FeatureHook, fn?: FeatureHook) {
+  addHook("BeforeAll", tagsOrFn, fn);
+}
+
+/**
+ * Runs once per feature (per worker) after its last scenario.
+ * The tag expression is matched against the feature tags.
+ */
+export function AfterAll(tagsOrFn: string | FeatureHook, fn?: FeatureHook) {
+  addHook("AfterAll", tagsOrFn, fn);
+}
+
+/**
+ * Runs before every step of matching scenarios.
+ */
+export function BeforeStep(tagsOrFn: string | StepHook, fn?: StepHook) {
+  addHook("BeforeStep", tagsOrFn, fn);
+}
+
+/**
+ * Runs after every step of matching scenarios. `step.result` holds the outcome.
+ */
+export function AfterStep(tagsOrFn: string | StepHook, fn?: StepHook) {
+  addHook("AfterStep", tagsOrFn, fn);
+}
@@ -1,8 +1,37 @@
 // src/core/runner.ts
-import * as fs from "fs";
-import { test } from "@playwright/test";
+import { Browser, BrowserContext, Page, TestInfo, TestType, test } from "@playwright/test";
+import { Scenario } from "@cucumber/messages";
 import { globSync } from "glob";
-import { stepRegistry } from "./registry";
+import {
+  FeatureHook,
+  FeatureInfo,
+  ScenarioHook,
+  ScenarioInfo,
+  getHooks,
+  stepRegistry,
+} from "./registry";
+import {
+  ExecutionMode,
+  TagFilter,
+  TagModifiers,
+  getExecutionMode,
+  getTagModifiers,
+  hasTagModifiers,
+  parseTagFilter,
+} from "./tags";
+import { DbQuery, resetWorld } from "./world";
+import { createBrowserless } from "./browserless";
+import { ScenarioRun, hookTitle, runPickleStep, toHookResult } from "./executor";
+import { loadMacroFile } from "./macros";
+import { dryRun, formatDryRunReport, hasDryRunFailures } from "./dryRun";
+import {
+  ParsedFeature,
+  formatExamplesRow,
+  formatLocation,
+  getExamplesRow,
+  getScenarioLocation,
+  parseFeatureFile,
+} from "./gherkin";
 
 // LOAD BACKEND LIBRARIES
 import "../backend/actions/index";
@@ -16,100 +45,46 @@ import "../backend/db/index";
 
 // ✅ Move interfaces to the correct position
 export interface RunnerOptions {
+  /** Tag expression, e.g. "@smoke and not (@wip or @flaky)". Falls back to the TAGS env variable. */
   tags?: string;
-  dbQuery?: (query: string) => Promise<any>;
-}
-
-interface ParsedStep {
-  text: string;
-  cleanText: string;
-  dataTable?: string[][];
-  docString?: string;
-}
-/**
- * Parses a block of Gherkin lines into structured steps.
- */
-function parseSteps(block: string): ParsedStep[] {
-  const rawLines = block.split("\n");
-  const steps: ParsedStep[] = [];
-
-  let currentStep: ParsedStep | null = null;
-  let docStringBuffer: string[] = [];
-  let isDocStringOpen = false;
-
-  for (const line of rawLines) {
-    const trimmedLine = line.trim();
-
-    // A. Handle DocStrings (""")
-    if (trimmedLine.startsWith('"""')) {
-      isDocStringOpen = !isDocStringOpen;
-      if (!isDocStringOpen && currentStep) {
-        currentStep.docString = docStringBuffer.join("\n");
-        docStringBuffer = [];
-      }
-      continue;
-    }
-
-    // B. Inside DocString? Capture raw line (preserve indent)
-    if (isDocStringOpen) {
-      docStringBuffer.push(line);
-      continue;
-    }
-
-    // C. Skip Empty Lines, Comments, Tags, and section headers
-    if (
-      !trimmedLine ||
-      trimmedLine.startsWith("#") ||
-      (/^@/.test(trimmedLine) && !/^@[^@]/.test(line)) || // Skip lines that start with @ (but not inline tags like "And I expect #element @tag")
-      /^(Background|Scenario|Scenario Outline|Feature):/.test(trimmedLine)
-    ) {
-      continue;
-    }
-
-    // D. Handle Data Tables (| col | col |)
-    if (trimmedLine.startsWith("|")) {
-      if (currentStep) {
-        if (!currentStep.dataTable) currentStep.dataTable = [];
-        const cleanRow = trimmedLine
-          .split("|")
-          .slice(1, -1)
-          .map((c) => c.trim());
-        currentStep.dataTable.push(cleanRow);
-      }
-      continue;
-    }
-
-    // E. It is a New Step
-    const cleanText = trimmedLine
-      .replace(/^(Given|When|Then|And|But)\s+/i, "")
-      .replace(/:$/, "")
-      .trim();
-
-    currentStep = {
-      text: trimmedLine,
-      cleanText: cleanText,
-    };
-    steps.push(currentStep);
-  }
-
-  return steps;
-}
-
-/**
- * Extracts the Background block text from a feature file content.
- * Returns the raw text between "Background:" and the first Scenario.
- */
-function extractBackgroundBlock(content: string): string | null {
-  const backgroundMatch = content.match(/Background:\s*[^\n]*/);
-  if (!backgroundMatch) return null;
-
-  const startIndex = backgroundMatch.index! + backgroundMatch[0].length;
-  const nextSection = content
-    .slice(startIndex)
-    .search(/(?:(?:@\S+\s*)*(?:Scenario|Scenario Outline):)/);
-  const blockEnd =
-    nextSection === -1 ? content.length : startIndex + nextSection;
-  return content.slice(startIndex, blockEnd);
+  /** Database function used by the "I pw run the database query" steps. */
+  dbQuery?: DbQuery;
+  /**
+   * Validate the features without launching a browser: report undefined,
+   * ambiguous and unused steps instead of running scenarios.
+   * Can also be enabled with DRY_RUN=true.
+   */
+  dryRun?: boolean;
+  /**
+   * Gherkin dialect for feature files without a "# language:" header,
+   * e.g. "pt" or "de". Defaults to "en".
+   */
+  language?: string;
+  /**
+   * How the scenarios of a feature run (see test.describe.configure).
+   * "serial" runs them in order and stops after the first failure,
+   * "parallel" spreads them over workers. A @serial or @parallel tag
+   * on a Feature or Rule overrides this.
+   */
+  mode?: ExecutionMode;
+  /**
+   * A custom `test` created with test.extend(). Scenarios, hooks and
+   * steps run on it, so its fixtures can be handed to the steps.
+   */
+  test?: TestType<any, any>;
+  /**
+   * Fixtures of the custom `test` to set up for every scenario and expose to
+   * defineStep() functions as `fixtures`, e.g. ["adminApi", "seededUser"].
+   * Playwright only initialises fixtures a test asks for by name, so only
+   * `page`, `request` and the names listed here are forwarded; other fixtures
+   * of the custom test are not available to steps.
+   */
+  fixtures?: string[];
+  /**
+   * Run every scenario without a browser, as if tagged @api.
+   * Steps get a page that only provides `page.request`.
+   */
+  api?: boolean;
 }
 
 export function runTests(featureGlob: string, options?: RunnerOptions) {
@@ -130,224 +105,320 @@ export function runTests(featureGlob: string, options?: RunnerOptions) {
     });
   }
 
-  const files = globSync(featureGlob);
+  const bddTest = options?.test ?? test;
+  const matchedFiles = globSync(featureGlob);
+  // *.steps.feature files define step macros instead of scenarios
+  const macroFiles = matchedFiles.filter((file) => file.endsWith(".steps.feature"));
+  const files = matchedFiles.filter((file) => !macroFiles.includes(file));
+  macroFiles.forEach((file) => loadMacroFile(file, options?.language));
   const envTag = process.env.TAGS;
+  const activeFilter = options?.tags || envTag;
+  const tagFilter = activeFilter ? parseTagFilter(activeFilter) : undefined;
 
   if (files.length === 0) {
     console.log(`⚠️  No Feature files found for: ${featureGlob}`);
   }
 
-  for (const file of files) {
-    const content = fs.readFileSync(file, "utf8");
-
-    // 1. CAPTURE FEATURE TAGS (excluding comments)
-    // First, let's create a version of the content that excludes comment lines
-    // A comment line is one that starts with # followed by a space or end of line
-    const contentLines = content.split('\n');
-    const nonCommentLines = [];
-    
-    for (const line of contentLines) {
-      const trimmedLine = line.trim();
-      // Skip lines that are comments (start with # followed by space or end of line)
-      if (trimmedLine.startsWith('#') && (trimmedLine.length === 1 || /\s/.test(trimmedLine[1]))) {
-        continue;
+  // DRY RUN: a single browser-less test that fails on undefined/ambiguous steps
+  if (options?.dryRun ?? ["true", "1"].includes(process.env.DRY_RUN ?? "")) {
+    bddTest(`Dry run: ${featureGlob}`, () => {
+      const report = dryRun(files, (pickle) => {
+        const tagNames = pickle.tags.map((tag) => tag.name);
+        if (tagNames.includes("@ignore")) return false;
+        return !tagFilter || tagFilter.evaluate(tagNames);
+      }, options?.language);
+      // Unused definitions are only informational: they are logged, not part of the error
+      console.log(formatDryRunReport(report));
+      if (hasDryRunFailures(report)) {
+        throw new Error(formatDryRunReport(report, { unused: false }));
       }
-      nonCommentLines.push(line);
+    });
+    return;
+  }
+
+  for (const file of files) {
+    // 1. PARSE THE FEATURE (Gherkin AST + Pickles)
+    const parsed = parseFeatureFile(file, options?.language);
+    const feature = parsed.document.feature;
+
+    if (!feature || parsed.pickles.length === 0) {
+      console.warn(`⚠️  File matched but 0 Scenarios found in: ${file}`);
+      continue;
     }
-    
-    const nonCommentContent = nonCommentLines.join('\n');
 
-    const featureTagMatch = nonCommentContent.match(/((?:@\S+\s*)+)Feature:/);
-    const rawFeatureTags = featureTagMatch ? featureTagMatch[1] : "";
-    const featureTags = rawFeatureTags.replace(/[\r\n]+/g, " ").trim();
-    
     // Check if the feature has @ignore tag and skip if it does
-    if (featureTags.includes('@ignore')) {
+    if (feature.tags.some((tag) => tag.name === "@ignore")) {
       console.log(`⏭️ Skipping feature due to @ignore tag`);
       continue;
     }
 
-    const featureMatch = content.match(/Feature:\s*(.+)/);
-    const featureName = featureMatch
-      ? featureMatch[1].trim()
-      : "Unnamed Feature";
-
-    test.describe(featureName, () => {
-      // 2. PARSE BACKGROUND (if present)
-      const backgroundBlock = extractBackgroundBlock(content);
-      const backgroundSteps = backgroundBlock
-        ? parseSteps(backgroundBlock)
-        : [];
-
-      // 3. SCENARIO REGEX
-      // For scenario tags, we need to be more careful about comments
-      // We'll process each scenario individually to check for comment lines
-      const _scenarioPattern = /(?:((?:@\S+\s*)+))?(?:Scenario|Scenario Outline):\s*(.+)/g;
-
-      let match: RegExpExecArray | null;
-      let foundCount = 0;
-
-      // 3. SCENARIO REGEX
-      // Use the non-comment content for tag matching to avoid commented tags
-      const scenarioRegex = /(?:((?:@\S+\s*)+))?(?:Scenario|Scenario Outline):\s*(.+)/g;
-
-      // Reset regex index for each file
-      scenarioRegex.lastIndex = 0;
-      
-      while ((match = scenarioRegex.exec(nonCommentContent)) !== null) {
-        foundCount++;
-        const rawScenarioTags = match[1] || "";
-        const scenarioTags = rawScenarioTags.replace(/[\r\n]+/g, " ").trim();
-        const scenarioName = match[2].trim();
-
-        // 3. MERGE TAGS
-        const combinedTags = `${featureTags} ${scenarioTags}`.trim();
-        const fullName = combinedTags
-          ? `${scenarioName} ${combinedTags}`
-          : scenarioName;
-
-        // CHECK FOR IGNORE TAG
-        // If the combined tags include @ignore, skip this scenario
-        if (combinedTags.includes('@ignore')) {
-          console.log(`⏭️ Skipping scenario "${scenarioName}" due to @ignore tag`);
-          continue;
-        }
+    const featureName = feature.name.trim() || "Unnamed Feature";
 
-        // ENV FILTERING
-        const activeFilter = options?.tags || envTag;
-        if (activeFilter) {
-          const targetGroups = activeFilter.split(",").map((t) => t.trim());
-          const isMatch = targetGroups.some((group) => {
-            const requiredTags = group.split("+").map((t) => t.trim());
-            return requiredTags.every((t) => combinedTags.includes(t));
-          });
-          if (!isMatch) continue;
-        }
+    const featureInfo: FeatureInfo = {
+      name: featureName,
+      tags: feature.tags.map((tag) => tag.name),
+      uri: file,
+      language: feature.language,
+    };
 
-        // EXTRACT SCENARIO BLOCK from original content
-        // Find the corresponding scenario in the original content
-        const scenarioPattern = new RegExp(`(?:((?:@\\S+\\s*)+))?\\s*(?:Scenario|Scenario Outline):\\s*${escapeRegExp(scenarioName)}`, 'g');
-        const originalMatch = content.match(scenarioPattern);
-
-        if (originalMatch) {
-          // Find the exact position of this scenario in the original content
-          const scenarioStartPattern = `(?:((?:@\\S+\\s*)+))?\\s*(?:Scenario|Scenario Outline):\\s*${escapeRegExp(scenarioName)}`;
-          const _scenarioStartRegex = new RegExp(scenarioStartPattern);
-          const scenarioStartMatch = content.match(scenarioStartPattern);
-          
-          if (scenarioStartMatch && scenarioStartMatch.index !== undefined) {
-            const startIndex = scenarioStartMatch.index + scenarioStartMatch[0].length;
-            const nextMatchIndex = content
-              .slice(startIndex)
-              .search(/(?:(?:@\S+\s*)*(?:Scenario|Scenario Outline):)/);
-            const blockEnd =
-              nextMatchIndex === -1 ? content.length : startIndex + nextMatchIndex;
-            const scenarioBlock = content.slice(startIndex, blockEnd);
-
-            test(fullName, async ({ page }, testInfo) => {
-              // ==================================================
-              // PHASE 1: PARSE GHERKIN (Preserve Formatting)
-              // ==================================================
-              const scenarioSteps = parseSteps(scenarioBlock);
-              const steps = [...backgroundSteps, ...scenarioSteps];
-
-              // ==================================================
-              // PHASE 2: EXECUTE STEPS
-              // ==================================================
-              console.log(`\n🔹 Scenario: ${scenarioName}`);
-
-              for (const step of steps) {
-                const matchResult = findMatchingStep(step.cleanText);
-
-                if (!matchResult) {
-                  throw new Error(`❌ Undefined Step: "${step.cleanText}"`);
-                }
-
-                try {
-                  console.log(`   executing: ${step.text.trim()}`);
-
-                  const args = [...matchResult.args];
-
-                  // Append Data Table if present
-                  if (step.dataTable && step.dataTable.length > 0) {
-                    args.push(step.dataTable);
-                  }
-
-                  // Append DocString if present
-                  if (step.docString) {
-                    args.push(step.docString);
-                  }
-
-                  await matchResult.fn(page, ...args);
-                } catch (error: any) {
-                  console.error(`❌ Failed at step: "${step.text.trim()}"`);
-                  const screenshot = await page.screenshot({
-                    fullPage: true,
-                    type: "png",
-                  });
-                  await testInfo.attach("failure-screenshot", {
-                    body: screenshot,
-                    contentType: "image/png",
-                  });
-                  throw error;
-                }
-              }
-            });
+    const featureMode = getExecutionMode(featureInfo.tags) ?? options?.mode;
+
+    // BeforeAll/AfterAll only launch a browser when there is a hook to hand it to,
+    // and not at all when every scenario is API-only
+    const featureApiOnly =
+      options?.api ||
+      parsed.pickles.every((pickle) => pickle.tags.some((tag) => tag.name === "@api"));
+    const hookFixtures = (type: "BeforeAll" | "AfterAll") =>
+      featureApiOnly || getHooks(type, featureInfo.tags).length === 0 ? [] : ["browser"];
+
+    bddTest.describe(featureName, () => {
+      const usedTitles = new Set<string>();
+
+      if (featureMode) {
+        bddTest.describe.configure({ mode: featureMode });
+      }
+
+      bddTest.beforeAll(
+        withFixtureSignature(hookFixtures("BeforeAll"), async (fixtures) => {
+          const browser = fixtures.browser ?? createBrowserless<Browser>("browser");
+          for (const hook of getHooks("BeforeAll", featureInfo.tags)) {
+            await bddTest.step(hookTitle(hook), () =>
+              (hook.fn as FeatureHook)(browser, featureInfo)
+            );
+          }
+        })
+      );
+
+      // Like After hooks, every AfterAll hook runs and the first error is reported.
+      // BeforeAll hooks stop at the first failure, like Before hooks.
+      bddTest.afterAll(
+        withFixtureSignature(hookFixtures("AfterAll"), async (fixtures) => {
+          const browser = fixtures.browser ?? createBrowserless<Browser>("browser");
+          let failure: Error | undefined;
+          for (const hook of getHooks("AfterAll", featureInfo.tags)) {
+            try {
+              await bddTest.step(hookTitle(hook), () =>
+                (hook.fn as FeatureHook)(browser, featureInfo)
+              );
+            } catch (error: any) {
+              failure = failure ?? error;
+            }
           }
+          if (failure) throw failure;
+        })
+      );
+
+      // 2. SCENARIOS & RULES (Background steps are already included in each pickle)
+      for (const child of feature.children) {
+        if (child.scenario) {
+          registerScenario(parsed, child.scenario, usedTitles, tagFilter, options);
         }
-      }
 
-      if (foundCount === 0) {
-        console.warn(`⚠️  File matched but 0 Scenarios found in: ${file}`);
+        // 3. RULES get their own describe block; their scenarios inherit the
+        // rule tags and run the feature Background followed by the rule Background
+        if (child.rule) {
+          const rule = child.rule;
+          const ruleMode = getExecutionMode(rule.tags.map((tag) => tag.name));
+          // Playwright cannot nest a parallel describe in a serial or default one
+          if (ruleMode === "parallel" && featureMode && featureMode !== "parallel") {
+            throw new Error(
+              `❌ Rule "${rule.name.trim()}" (${file}:${rule.location.line}) is @parallel, ` +
+                `but its feature runs in ${featureMode} mode.`
+            );
+          }
+          bddTest.describe(rule.name.trim() || "Unnamed Rule", () => {
+            const ruleTitles = new Set<string>();
+            if (ruleMode) {
+              bddTest.describe.configure({ mode: ruleMode });
+            }
+            for (const ruleChild of rule.children) {
+              if (ruleChild.scenario) {
+                registerScenario(parsed, ruleChild.scenario, ruleTitles, tagFilter, options);
+              }
+            }
+          });
+        }
       }
     });
   }
 }
 
 /**
- * Escapes special regex characters in a string
+ * Registers one Playwright test per pickle compiled from a Scenario
+ * (one for a plain Scenario, one per Examples row for an Outline).
  */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
+function registerScenario(
+  parsed: ParsedFeature,
+  scenario: Scenario,
+  usedTitles: Set<string>,
+  tagFilter?: TagFilter,
+  options?: RunnerOptions
+) {
+  const bddTest = options?.test ?? test;
+
+  for (const pickle of parsed.picklesByScenario.get(scenario.id) ?? []) {
+    const scenarioName = pickle.name;
+    const tagNames = pickle.tags.map((tag) => tag.name);
+    const combinedTags = tagNames.join(" ");
+
+    // CHECK FOR IGNORE TAG
+    // If the combined tags include @ignore, skip this scenario
+    if (pickle.tags.some((tag) => tag.name === "@ignore")) {
+      console.log(`⏭️ Skipping scenario "${scenarioName}" due to @ignore tag`);
+      continue;
+    }
 
-/**
- * Finds the matching step definition from the registry.
- * Supports: RegExp (with capture groups) and CucumberExpressions.
- */
-function findMatchingStep(text: string) {
-  for (const step of stepRegistry) {
-    // 1. Cucumber Expression Match (NEW - Proper way)
-    if (step.expression && typeof (step.expression as any).match === "function") {
-      try {
-        const match = (step.expression as any).match(text);
-        if (match) {
-          return {
-            fn: step.fn,
-            args: match.map((arg: any) => arg.getValue(null)),
+    // ENV FILTERING (feature, rule, scenario and examples tags)
+    if (tagFilter && !tagFilter.evaluate(tagNames)) continue;
+
+    // Scenario Outlines: one test per Examples row, labelled with its values
+    const example = getExamplesRow(scenario, pickle);
+    const title = example
+      ? `${scenarioName} [${formatExamplesRow(example.examples, example.row)}]`
+      : scenarioName;
+    const scenarioLocation = getScenarioLocation(parsed, scenario, pickle);
+    const fullName = uniqueTitle(
+      combinedTags ? `${title} ${combinedTags}` : title,
+      scenarioLocation.line,
+      usedTitles
+    );
+
+    const scenarioInfo: ScenarioInfo = {
+      name: scenarioName,
+      tags: tagNames,
+      uri: parsed.uri,
+      location: formatLocation(scenarioLocation),
+    };
+
+    // @api scenarios only request the APIRequestContext, so no browser is launched
+    const apiOnly = Boolean(options?.api) || tagNames.includes("@api");
+    const fixtureNames = [
+      ...(apiOnly ? [] : ["page"]),
+      "request",
+      ...(options?.fixtures ?? []),
+    ];
+
+    // Playwright attributes the test to the spec calling runTests,
+    // so the Gherkin source is recorded as an annotation
+    const annotation = { type: "feature", description: scenarioInfo.location };
+
+    const declareTest = () =>
+      bddTest(
+        fullName,
+        { annotation },
+        withFixtureSignature(fixtureNames, async (fixtures, testInfo) => {
+          const request = fixtures.request;
+          const page: Page = apiOnly
+            ? createBrowserless<Page>("page", request)
+            : fixtures.page;
+          console.log(`\n🔹 Scenario: ${scenarioName}`);
+
+          // Fresh element, alias, API and DB state for every scenario
+          const world = resetWorld({ dbQuery: options?.dbQuery }, testInfo.testId);
+
+          const run: ScenarioRun = {
+            bddTest,
+            page,
+            context: apiOnly ? createBrowserless<BrowserContext>("context") : page.context(),
+            request,
+            testInfo,
+            fixtures,
+            world,
+            scenario: scenarioInfo,
           };
-        }
-      } catch (_e) {
-        // Continue to next step if Cucumber Expression fails
-        continue;
-      }
-    }
 
-    // 2. RegExp Match
-    if (step.expression instanceof RegExp) {
-      const match = step.expression.exec(text);
-      if (match) {
-        // match[0] is full string, slice(1) are capture groups
-        return { fn: step.fn, args: match.slice(1) };
-      }
-    }
+          let failure: Error | undefined;
+          try {
+            for (const hook of getHooks("Before", tagNames)) {
+              await bddTest.step(hookTitle(hook), () =>
+                (hook.fn as ScenarioHook)(page, scenarioInfo)
+              );
+            }
+
+            // Each Gherkin step (Background steps included) is a test.step in
+            // the report and trace viewer; step hooks are nested inside it
+            for (const step of pickle.steps) {
+              await runPickleStep(run, parsed, step);
+            }
+          } catch (error: any) {
+            failure = error;
+          }
 
-    // 3. String Match (Legacy/Simple)
-    else if (typeof step.expression === "string") {
-      if (step.expression === text) {
-        return { fn: step.fn, args: [] };
-      }
+          // After hooks always run, even when an earlier one fails, and receive the
+          // scenario outcome. The scenario failure, then the first hook error, is reported.
+          const result = toHookResult(failure);
+          for (const hook of getHooks("After", tagNames)) {
+            try {
+              await bddTest.step(hookTitle(hook), () =>
+                (hook.fn as ScenarioHook)(page, { ...scenarioInfo, result })
+              );
+            } catch (error: any) {
+              failure = failure ?? error;
+            }
+          }
+
+          if (failure) throw failure;
+        })
+      );
+
+    // @skip, @fixme, @fail, @slow, @only, @timeout:<ms> and @retries:<n> become
+    // Playwright modifiers on an anonymous describe wrapping just this test
+    const modifiers = getTagModifiers(tagNames);
+    if (hasTagModifiers(modifiers)) {
+      const group = modifiers.only ? bddTest.describe.only : bddTest.describe;
+      group(() => {
+        applyTagModifiers(bddTest, modifiers, scenarioInfo.location);
+        declareTest();
+      });
+    } else {
+      declareTest();
     }
   }
-  return null;
-}
\ No newline at end of file
+}
+
+/**
+ * Applies tag modifiers to the enclosing describe block. The reason shown
+ * in the report names the tag and where the scenario is written.
+ */
+function applyTagModifiers(
+  bddTest: TestType<any, any>,
+  modifiers: TagModifiers,
+  location: string
+) {
+  const reason = (tag: string) => `${tag} (${location})`;
+  if (modifiers.skip) bddTest.skip(true, reason("@skip"));
+  if (modifiers.fixme) bddTest.fixme(true, reason("@fixme"));
+  if (modifiers.fail) bddTest.fail(true, reason("@fail"));
+  if (modifiers.slow) bddTest.slow(true, reason("@slow"));
+  bddTest.describe.configure({ timeout: modifiers.timeout, retries: modifiers.retries });
+}
+
+/**
+ * Playwright reads the fixtures a test needs from the destructured first
+ * parameter in the function source, and rejects "...rest". Presenting a
+ * signature that lists the names lets the body receive all of them as one object.
+ * This relies on Playwright parsing `fn.toString()`, which is internal behaviour
+ * and not public API; checked against @playwright/test 1.58.
+ */
+function withFixtureSignature(
+  names: string[],
+  body: (fixtures: Record<string, any>, testInfo: TestInfo) => Promise<void>
+) {
+  const invalid = names.find((name) => !/^[A-Za-z_$][\w$]*$/.test(name));
+  if (invalid !== undefined) {
+    throw new Error(`❌ Invalid fixture name "${invalid}" in RunnerOptions.fixtures.`);
+  }
+  const signature = `async ({ ${[...new Set(names)].join(", ")} }, testInfo) => {}`;
+  body.toString = () => signature;
+  return body;
+}
+
+/**
+ * Playwright rejects duplicate test titles inside a describe block,
+ * so scenarios sharing a name are told apart by their line number.
+ */
+function uniqueTitle(title: string, line: number, usedTitles: Set<string>): string {
+  const unique = usedTitles.has(title) ? `${title} (line ${line})` : title;
+  usedTitles.add(unique);
+  return unique;
+}
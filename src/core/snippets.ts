@@ -0,0 +1,127 @@
+// src/core/snippets.ts
+import { CucumberExpressionGenerator } from "@cucumber/cucumber-expressions";
+import { PickleStep, PickleStepType } from "@cucumber/messages";
+import { StepDefinition, parameterTypeRegistry, stepRegistry } from "./registry";
+
+const MAX_SUGGESTIONS = 5;
+const MIN_SIMILARITY = 0.65;
+
+const generator = new CucumberExpressionGenerator(
+  () => parameterTypeRegistry.parameterTypes
+);
+
+/**
+ * Levenshtein distance between two strings (case-insensitive).
+ */
+function editDistance(a: string, b: string): number {
+  const s = a.toLowerCase();
+  const t = b.toLowerCase();
+  let previous = Array.from({ length: t.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[t.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+function patternSource(step: StepDefinition): string {
+  return step.pattern instanceof RegExp
+    ? step.pattern.source.replace(/^\^|\$$/g, "")
+    : step.pattern;
+}
+
+/**
+ * Ranks every registered pattern by how similar it is to the step text.
+ * Parameters are compared in their {type} form, so "I pw clik on text "Login""
+ * is close to "I pw click on text {string}".
+ * @returns Up to 5 patterns, most similar first
+ */
+export function suggestSteps(text: string): string[] {
+  const generated = generator.generateExpressions(text)[0]?.source ?? text;
+
+  const ranked = stepRegistry
+    .map((step) => {
+      const pattern = patternSource(step);
+      return {
+        pattern,
+        score: Math.max(similarity(generated, pattern), similarity(text, pattern)),
+      };
+    })
+    .filter((entry) => entry.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score);
+
+  return [...new Set(ranked.map((entry) => entry.pattern))].slice(0, MAX_SUGGESTIONS);
+}
+
+function snippetType(step: PickleStep): string {
+  switch (step.type) {
+    case PickleStepType.CONTEXT:
+      return "Given";
+    case PickleStepType.OUTCOME:
+      return "Then";
+    default:
+      return "When";
+  }
+}
+
+function parameterTsType(typeName: string): string {
+  if (typeName === "int" || typeName === "float" || typeName === "ordinal") return "number";
+  if (typeName === "string" || typeName === "word") return "string";
+  return "any";
+}
+
+/**
+ * Builds a ready-to-paste Step(...) definition for an undefined step.
+ * {string}, {int}, {float} and {ordinal} parameters are inferred from the step text,
+ * and a dataTable / docString parameter is added when the step has one.
+ */
+export function generateSnippet(step: PickleStep, text: string): string {
+  const expression = generator.generateExpressions(text)[0];
+  const source = expression?.source ?? text;
+
+  const params = ["page"];
+  expression?.parameterNames.forEach((name, index) => {
+    const typeName = expression.parameterTypes[index]?.name ?? "";
+    params.push(`${name}: ${parameterTsType(typeName)}`);
+  });
+  if (step.argument?.dataTable) params.push("dataTable: DataTable");
+  if (step.argument?.docString) params.push("docString: string");
+
+  return [
+    `Step(${JSON.stringify(source)}, async (${params.join(", ")}) => {`,
+    `  // Write code here that turns the phrase above into concrete actions`,
+    `}, "${snippetType(step)}");`,
+  ].join("\n");
+}
+
+/**
+ * Builds the error message for a step without a matching definition:
+ * "did you mean" suggestions followed by a code snippet.
+ */
+export function undefinedStepMessage(step: PickleStep, text: string): string {
+  const lines = [`❌ Undefined Step: "${text}"`];
+
+  const suggestions = suggestSteps(text);
+  if (suggestions.length > 0) {
+    lines.push("", "   Did you mean:");
+    suggestions.forEach((pattern) => lines.push(`   - ${pattern}`));
+  }
+
+  lines.push("", "   Implement it with:", "");
+  generateSnippet(step, text)
+    .split("\n")
+    .forEach((line) => lines.push(`   ${line}`));
+
+  return lines.join("\n");
+}
@@ -0,0 +1,140 @@
+// src/core/tags.ts
+import parse from "@cucumber/tag-expressions";
+
+/**
+ * A compiled tag filter that can be evaluated against a scenario's tags.
+ */
+export interface TagFilter {
+  expression: string;
+  evaluate(tags: readonly string[]): boolean;
+}
+
+/**
+ * Converts the legacy shorthand into a Cucumber tag expression.
+ * "," separates alternatives (OR) and "+" joins required tags (AND),
+ * so "@a+@b,@c" becomes "(@a and @b) or (@c)".
+ */
+function fromShorthand(filter: string): string {
+  return filter
+    .split(",")
+    .map((group) =>
+      group
+        .split("+")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+        .join(" and ")
+    )
+    .filter(Boolean)
+    .map((group) => `(${group})`)
+    .join(" or ");
+}
+
+/**
+ * Returns true when the filter uses the "," / "+" shorthand
+ * instead of the standard and/or/not keywords.
+ */
+function isShorthand(filter: string): boolean {
+  return /[,+]/.test(filter) && !/\b(and|or|not)\b|[()]/.test(filter);
+}
+
+/**
+ * Compiles a tag filter such as "@smoke and not (@wip or @flaky)".
+ * The legacy "@a+@b,@c" shorthand is still accepted.
+ * Tags are matched exactly, so "@smoke" does not match "@smoke-slow".
+ * @param filter - The tag expression (from RunnerOptions.tags or the TAGS env variable)
+ */
+export function parseTagFilter(filter: string): TagFilter {
+  const expression = isShorthand(filter) ? fromShorthand(filter) : filter.trim();
+
+  let node: ReturnType<typeof parse>;
+  try {
+    node = parse(expression);
+  } catch (error: any) {
+    throw new Error(`❌ Invalid tag expression "${filter}": ${error.message}`);
+  }
+
+  return {
+    expression,
+    evaluate: (tags) => node.evaluate([...tags]),
+  };
+}
+
+/**
+ * Playwright modifiers requested through well-known scenario tags.
+ */
+export interface TagModifiers {
+  skip: boolean;
+  fixme: boolean;
+  fail: boolean;
+  slow: boolean;
+  only: boolean;
+  /** From "@timeout:<ms>" */
+  timeout?: number;
+  /** From "@retries:<n>" */
+  retries?: number;
+}
+
+function parseTagNumber(tag: string, name: string, unit: string): number {
+  const value = tag.slice(name.length + 1);
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`❌ Invalid tag "${tag}": expected ${name}:<${unit}>, e.g. ${name}:5000.`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Reads @skip, @fixme, @fail, @slow, @only, @timeout:<ms> and @retries:<n>
+ * from a scenario's tags (feature and rule tags included).
+ */
+export function getTagModifiers(tags: readonly string[]): TagModifiers {
+  const modifiers: TagModifiers = {
+    skip: tags.includes("@skip"),
+    fixme: tags.includes("@fixme"),
+    fail: tags.includes("@fail"),
+    slow: tags.includes("@slow"),
+    only: tags.includes("@only"),
+  };
+
+  for (const tag of tags) {
+    if (tag.startsWith("@timeout:")) {
+      modifiers.timeout = parseTagNumber(tag, "@timeout", "ms");
+    } else if (tag.startsWith("@retries:")) {
+      modifiers.retries = parseTagNumber(tag, "@retries", "n");
+    }
+  }
+
+  return modifiers;
+}
+
+/**
+ * True when at least one modifier tag is present.
+ */
+export function hasTagModifiers(modifiers: TagModifiers): boolean {
+  return (
+    modifiers.skip ||
+    modifiers.fixme ||
+    modifiers.fail ||
+    modifiers.slow ||
+    modifiers.only ||
+    modifiers.timeout !== undefined ||
+    modifiers.retries !== undefined
+  );
+}
+
+export type ExecutionMode = "default" | "parallel" | "serial";
+
+/**
+ * Reads the execution mode requested by a @serial or @parallel tag
+ * on a Feature or Rule.
+ * @returns The mode, or undefined when neither tag is present
+ */
+export function getExecutionMode(tags: readonly string[]): ExecutionMode | undefined {
+  const serial = tags.includes("@serial");
+  const parallel = tags.includes("@parallel");
+  if (serial && parallel) {
+    throw new Error(`❌ Conflicting tags: @serial and @parallel cannot be combined.`);
+  }
+  if (serial) return "serial";
+  if (parallel) return "parallel";
+  return undefined;
+}
@@ -0,0 +1,58 @@
+// src/core/world.ts
+import { APIResponse, Locator } from "@playwright/test";
+
+export type DbQuery = (query: string) => Promise<any>;
+
+/**
+ * State shared by the steps of one scenario. The runner creates a fresh
+ * World before every scenario, so nothing leaks into the next test.
+ */
+export interface World {
+  /** Element stored by the last "I pw find ..." step. */
+  activeElement?: Locator;
+  /** Element list stored by the last "I pw find elements ..." step. */
+  activeElements?: Locator;
+  /** Aliases stored with "I store ... as" and read back with "@name". */
+  variables: Record<string, any>;
+  /** Response of the last API request. */
+  lastResponse?: APIResponse;
+  /** Result of the last database query. */
+  lastDbResult?: any;
+  /** Database function passed to runTests() as `dbQuery`. */
+  dbQuery?: DbQuery;
+}
+
+export function createWorld(options?: { dbQuery?: DbQuery }): World {
+  return { variables: {}, dbQuery: options?.dbQuery };
+}
+
+// Playwright runs one test at a time per worker process,
+// so a single current world is enough.
+let currentWorld: World = createWorld();
+let currentTestId: string | undefined;
+
+/**
+ * Returns the World of the running scenario.
+ */
+export function getWorld(): World {
+  return currentWorld;
+}
+
+/**
+ * Replaces the current World; called by the runner before every scenario.
+ * @param testId - The Playwright test the new World belongs to
+ */
+export function resetWorld(options?: { dbQuery?: DbQuery }, testId?: string): World {
+  currentWorld = createWorld(options);
+  currentTestId = testId;
+  return currentWorld;
+}
+
+/**
+ * Returns the World of the given test, starting a fresh one when another
+ * test used the current World. Lets several runSteps() calls in one
+ * Playwright test share aliases and responses.
+ */
+export function getTestWorld(testId: string): World {
+  return currentTestId === testId ? currentWorld : resetWorld({}, testId);
+}
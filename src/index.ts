@@ -1,11 +1,46 @@
 export { runTests } from "./core/runner";
-export { Step } from "./core/registry";
+export { runSteps } from "./core/inline";
+export {
+  Step,
+  defineStep,
+  Before,
+  After,
+  BeforeAll,
+  AfterAll,
+  BeforeStep,
+  AfterStep,
+  defineParameterType,
+} from "./core/registry";
+export { StepMacro } from "./core/macros";
+export { executeStep } from "./core/executor";
 export { getReporters } from "./reporting/index";
 export { runComponentTests } from "./component/index";
 export { setFixtureConfig, resolveEnvVariable } from "./backend/utils/fixtures";
+export { getWorld } from "./core/world";
+export { DataTable } from "./core/dataTable";
+export { parseDocString } from "./core/docString";
 
 // Now these should work since they're properly exported from their respective files
 export type { RunnerOptions } from "./core/runner";
+export type { RunStepsOptions } from "./core/inline";
+export type { ExecuteStepOptions } from "./core/executor";
+export type { ExecutionMode } from "./core/tags";
 export type { ReportOptions } from "./reporting/index";
-export type { StepAction } from "./core/registry";
-export type { ComponentRunnerOptions } from "./component/index";
\ No newline at end of file
+export type {
+  StepAction,
+  StepContext,
+  ContextStepAction,
+  StepOptions,
+  ParameterTypeDefinition,
+  FeatureHook,
+  ScenarioHook,
+  StepHook,
+  FeatureInfo,
+  ScenarioInfo,
+  StepInfo,
+  HookResult,
+} from "./core/registry";
+export type { ComponentRunnerOptions } from "./component/index";
+export type { World, DbQuery } from "./core/world";
+export type { ColumnType, ColumnTypes } from "./core/dataTable";
+export type { DocString, DocStringBody } from "./core/docString";
\ No newline at end of file